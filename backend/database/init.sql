@@ -6,6 +6,14 @@ CREATE TABLE IF NOT EXISTS subreddits (
     name VARCHAR(255) UNIQUE NOT NULL,
     description TEXT,
     subscribers_count INTEGER DEFAULT 0,
+    active_users INTEGER DEFAULT 0,
+    over18 BOOLEAN DEFAULT FALSE,
+    subreddit_created_utc TIMESTAMP,
+    status VARCHAR(20),
+    about_fetched_at TIMESTAMP,
+    last_post_created_utc TIMESTAMP,
+    last_post_reddit_id VARCHAR(255),
+    last_synced_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -17,6 +25,8 @@ CREATE TABLE IF NOT EXISTS authors (
     link_karma INTEGER DEFAULT 0,
     comment_karma INTEGER DEFAULT 0,
     account_created_utc TIMESTAMP,
+    profile_status VARCHAR(20),
+    profile_fetched_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT NOW(),
     updated_at TIMESTAMP DEFAULT NOW()
 );
@@ -41,32 +51,207 @@ CREATE TABLE IF NOT EXISTS posts (
     updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Post score history, one row per observation of a post
+CREATE TABLE IF NOT EXISTS post_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    post_id INTEGER REFERENCES posts(id) ON DELETE CASCADE,
+    score INTEGER DEFAULT 0,
+    upvotes INTEGER DEFAULT 0,
+    downvotes INTEGER DEFAULT 0,
+    comment_count INTEGER DEFAULT 0,
+    captured_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Comments table
 CREATE TABLE IF NOT EXISTS comments (
     id SERIAL PRIMARY KEY,
     reddit_id VARCHAR(255) UNIQUE NOT NULL,
     post_id INTEGER REFERENCES posts(id) ON DELETE CASCADE,
     author_id INTEGER REFERENCES authors(id) ON DELETE SET NULL,
+    parent_reddit_id VARCHAR(255),
+    depth INTEGER DEFAULT 0,
     content TEXT NOT NULL,
     score INTEGER DEFAULT 0,
     created_utc TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Scheduled sync jobs
+CREATE TABLE IF NOT EXISTS sync_schedules (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    subreddit VARCHAR(255),
+    search_query TEXT,
+    cron_expression VARCHAR(255),
+    interval_seconds INTEGER,
+    sort VARCHAR(20) NOT NULL DEFAULT 'hot',
+    time_filter VARCHAR(10) NOT NULL DEFAULT 'week',
+    post_limit INTEGER NOT NULL DEFAULT 100,
+    enabled BOOLEAN DEFAULT TRUE,
+    next_run_at TIMESTAMP,
+    last_run_at TIMESTAMP,
+    last_status VARCHAR(20),
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CHECK (subreddit IS NOT NULL OR search_query IS NOT NULL),
+    CHECK (cron_expression IS NOT NULL OR interval_seconds IS NOT NULL)
+);
+
+-- API users, from the identity provider (JWT) or created with an API key
+CREATE TABLE IF NOT EXISTS users (
+    id SERIAL PRIMARY KEY,
+    external_id VARCHAR(255) UNIQUE,
+    email VARCHAR(255),
+    name VARCHAR(255),
+    role VARCHAR(20) NOT NULL DEFAULT 'viewer',
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CHECK (role IN ('viewer', 'operator'))
+);
+
+-- API keys, only a SHA-256 hash of the key is stored
+CREATE TABLE IF NOT EXISTS api_keys (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    key_prefix VARCHAR(20) NOT NULL,
+    key_hash VARCHAR(64) UNIQUE NOT NULL,
+    last_used_at TIMESTAMP,
+    revoked_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Saved searches
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    query JSONB NOT NULL,
+    last_run_at TIMESTAMP,
+    last_match_count INTEGER,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Posts already returned by a saved search, used for "new since last run"
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+    saved_search_id INTEGER NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    post_id INTEGER NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    first_matched_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (saved_search_id, post_id)
+);
+
+-- Keyword alert rules, evaluated against newly inserted posts after each sync
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    query TEXT NOT NULL,
+    subreddits TEXT[],
+    min_score INTEGER NOT NULL DEFAULT 0,
+    cooldown_seconds INTEGER NOT NULL DEFAULT 3600,
+    webhook_url TEXT NOT NULL,
+    webhook_secret VARCHAR(255) NOT NULL,
+    enabled BOOLEAN DEFAULT TRUE,
+    last_triggered_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Webhook delivery log
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+    id SERIAL PRIMARY KEY,
+    alert_rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+    event VARCHAR(50) NOT NULL,
+    post_ids INTEGER[] NOT NULL DEFAULT '{}',
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    error TEXT,
+    -- When the delivery worker should (re)try a pending delivery, pushed forward while an attempt runs
+    next_attempt_at TIMESTAMP DEFAULT NOW(),
+    created_at TIMESTAMP DEFAULT NOW(),
+    delivered_at TIMESTAMP
+);
+
+-- Sync run history (ETL audit log)
+CREATE TABLE IF NOT EXISTS sync_runs (
+    id SERIAL PRIMARY KEY,
+    type VARCHAR(20) NOT NULL,
+    subreddit VARCHAR(255),
+    query TEXT,
+    params JSONB DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'running',
+    started_at TIMESTAMP DEFAULT NOW(),
+    finished_at TIMESTAMP,
+    posts_inserted INTEGER DEFAULT 0,
+    posts_updated INTEGER DEFAULT 0,
+    comments_count INTEGER DEFAULT 0,
+    api_requests INTEGER DEFAULT 0,
+    errors JSONB DEFAULT '[]'
+);
+
+-- Sort keys for search results, IMMUTABLE so they can be indexed
+-- Reddit "hot": log10 of the score plus a bonus growing with post date (12.5h per order of magnitude)
+CREATE OR REPLACE FUNCTION hot_score(score INTEGER, created_utc TIMESTAMP)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT SIGN(COALESCE(score, 0)) * LOG(GREATEST(ABS(COALESCE(score, 0)), 1))
+        + (EXTRACT(EPOCH FROM created_utc) - 1134028003) / 45000
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Reddit "controversial": many votes, evenly split between up and down
+CREATE OR REPLACE FUNCTION controversy(upvotes INTEGER, downvotes INTEGER)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT CASE
+        WHEN COALESCE(upvotes, 0) <= 0 OR COALESCE(downvotes, 0) <= 0 THEN 0
+        ELSE POWER(upvotes + downvotes, LEAST(upvotes, downvotes)::float8 / GREATEST(upvotes, downvotes))
+    END
+$$ LANGUAGE sql IMMUTABLE;
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_posts_subreddit ON posts(subreddit_id);
 CREATE INDEX IF NOT EXISTS idx_posts_author ON posts(author_id);
 CREATE INDEX IF NOT EXISTS idx_posts_score ON posts(score DESC);
 CREATE INDEX IF NOT EXISTS idx_posts_created_utc ON posts(created_utc DESC);
 CREATE INDEX IF NOT EXISTS idx_posts_relevance ON posts(relevance_score DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_sort_score ON posts(score DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_sort_comments ON posts(comment_count DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_sort_created ON posts(created_utc DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_sort_hot ON posts(hot_score(score, created_utc) DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_sort_controversy ON posts(controversy(upvotes, downvotes) DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_post_snapshots_post ON post_snapshots(post_id, captured_at);
+CREATE INDEX IF NOT EXISTS idx_post_snapshots_captured ON post_snapshots(captured_at);
 CREATE INDEX IF NOT EXISTS idx_comments_post ON comments(post_id);
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON comments(parent_reddit_id);
+CREATE INDEX IF NOT EXISTS idx_comments_author ON comments(author_id);
 CREATE INDEX IF NOT EXISTS idx_authors_karma ON authors(link_karma DESC, comment_karma DESC);
 CREATE INDEX IF NOT EXISTS idx_subreddits_name ON subreddits(name);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_subreddit ON sync_runs(LOWER(subreddit), started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user ON alert_rules(user_id);
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_rule ON alert_deliveries(alert_rule_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_due ON alert_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_sync_schedules_due ON sync_schedules(next_run_at) WHERE enabled;
 
 -- Full text search indexes
 CREATE INDEX IF NOT EXISTS idx_posts_title_fts ON posts USING gin(to_tsvector('english', title));
 CREATE INDEX IF NOT EXISTS idx_posts_content_fts ON posts USING gin(to_tsvector('english', COALESCE(content, '')));
 
+-- Corpus-level term statistics for IDF weighting in search (BM25 IDF formula)
+CREATE MATERIALIZED VIEW IF NOT EXISTS term_idf AS
+SELECT
+    word,
+    ndoc,
+    LN(1 + ((SELECT COUNT(*) FROM posts) - ndoc + 0.5) / (ndoc + 0.5)) AS idf
+FROM ts_stat($$SELECT to_tsvector('english', title || ' ' || COALESCE(content, '')) FROM posts$$);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_term_idf_word ON term_idf(word);
+
 -- Updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -80,3 +265,8 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_subreddits_updated_at BEFORE UPDATE ON subreddits FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_authors_updated_at BEFORE UPDATE ON authors FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_posts_updated_at BEFORE UPDATE ON posts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_comments_updated_at BEFORE UPDATE ON comments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sync_schedules_updated_at BEFORE UPDATE ON sync_schedules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_saved_searches_updated_at BEFORE UPDATE ON saved_searches FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_alert_rules_updated_at BEFORE UPDATE ON alert_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
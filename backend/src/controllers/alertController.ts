@@ -0,0 +1,335 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { randomBytes } from 'crypto';
+import alertService from '../services/alertService';
+import { AlertRuleModel } from '../models/alertRuleModel';
+import { AlertDeliveryModel } from '../models/alertDeliveryModel';
+import { QuerySyntaxError, parseQuery } from '../utils/queryParser';
+import { idParamsSchema } from '../utils/validation';
+import { UnsafeWebhookError, assertPublicWebhook } from '../utils/webhookTarget';
+import { AlertRule } from '../types';
+import { ownerId } from './authController';
+import { z } from 'zod';
+
+const alertRuleSchema = z.object({
+  name: z.string().min(1).max(255),
+  query: z.string().min(1).max(1000),
+  subreddits: z.array(z.string().min(1)).nullable().optional(),
+  minScore: z.number().int().min(0).optional().default(0),
+  cooldownSeconds: z.number().int().min(0).optional().default(3600),
+  webhookUrl: z.string().url().refine(url => /^https?:\/\//.test(url), 'Webhook URL must use http or https'),
+  webhookSecret: z.string().min(16).optional(),
+  enabled: z.boolean().optional().default(true),
+}).superRefine((data, ctx) => {
+  try {
+    parseQuery(data.query);
+  } catch (error: any) {
+    if (!(error instanceof QuerySyntaxError)) throw error;
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['query'], message: error.message });
+  }
+});
+
+const deliveriesQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(500).optional().default(50),
+});
+
+type AlertRuleInput = z.infer<typeof alertRuleSchema>;
+
+/**
+ * Map validated API input to an alert rule row, a secret is generated when none is given
+ */
+const toRule = (data: AlertRuleInput): Omit<AlertRule, 'id'> => ({
+  name: data.name,
+  query: data.query,
+  subreddits: data.subreddits && data.subreddits.length > 0 ? data.subreddits : null,
+  min_score: data.minScore,
+  cooldown_seconds: data.cooldownSeconds,
+  webhook_url: data.webhookUrl,
+  webhook_secret: data.webhookSecret || randomBytes(32).toString('hex'),
+  enabled: data.enabled,
+});
+
+/**
+ * Map an alert rule row back to API input, used to merge partial updates
+ */
+const toInput = (rule: AlertRule) => ({
+  name: rule.name,
+  query: rule.query,
+  subreddits: rule.subreddits,
+  minScore: rule.min_score,
+  cooldownSeconds: rule.cooldown_seconds,
+  webhookUrl: rule.webhook_url,
+  webhookSecret: rule.webhook_secret,
+  enabled: rule.enabled,
+});
+
+/**
+ * The webhook secret is only shown when a rule is created
+ */
+const withoutSecret = ({ webhook_secret, ...rule }: AlertRule) => rule;
+
+export class AlertController {
+  /**
+   * List all alert rules
+   */
+  async list(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const rules = await AlertRuleModel.findAll(ownerId(request));
+
+      return reply.send({
+        success: true,
+        count: rules.length,
+        data: rules.map(withoutSecret),
+      });
+    } catch (error: any) {
+      console.error('List alert rules error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Get a single alert rule
+   */
+  async get(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const rule = await AlertRuleModel.findById(id, ownerId(request));
+
+      if (!rule) {
+        return reply.status(404).send({
+          success: false,
+          error: `Alert rule ${id} not found`,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: withoutSecret(rule),
+      });
+    } catch (error: any) {
+      console.error('Get alert rule error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Create an alert rule
+   */
+  async create(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const validatedData = alertRuleSchema.parse(request.body);
+      await assertPublicWebhook(validatedData.webhookUrl);
+      const created = await AlertRuleModel.create({ ...toRule(validatedData), user_id: ownerId(request) });
+
+      return reply.status(201).send({
+        success: true,
+        data: created,
+      });
+    } catch (error: any) {
+      console.error('Create alert rule error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      if (error instanceof UnsafeWebhookError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Update an alert rule, fields not provided are kept
+   */
+  async update(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const existing = await AlertRuleModel.findById(id, ownerId(request));
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: `Alert rule ${id} not found`,
+        });
+      }
+
+      const validatedData = alertRuleSchema.parse({
+        ...toInput(existing),
+        ...(request.body as object),
+      });
+
+      await assertPublicWebhook(validatedData.webhookUrl);
+      const updated = await AlertRuleModel.update(existing.id!, toRule(validatedData));
+
+      return reply.send({
+        success: true,
+        data: updated ? withoutSecret(updated) : null,
+      });
+    } catch (error: any) {
+      console.error('Update alert rule error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      if (error instanceof UnsafeWebhookError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Delete an alert rule and its delivery log
+   */
+  async delete(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const deleted = await AlertRuleModel.delete(id, ownerId(request));
+
+      if (!deleted) {
+        return reply.status(404).send({
+          success: false,
+          error: `Alert rule ${id} not found`,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: `Alert rule ${id} deleted`,
+      });
+    } catch (error: any) {
+      console.error('Delete alert rule error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Webhook delivery log of a rule
+   */
+  async getDeliveries(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const { limit } = deliveriesQuerySchema.parse(request.query);
+      const rule = await AlertRuleModel.findById(id, ownerId(request));
+
+      if (!rule) {
+        return reply.status(404).send({
+          success: false,
+          error: `Alert rule ${id} not found`,
+        });
+      }
+
+      const deliveries = await AlertDeliveryModel.findByRule(rule.id!, limit);
+
+      return reply.send({
+        success: true,
+        count: deliveries.length,
+        data: deliveries,
+      });
+    } catch (error: any) {
+      console.error('Get alert deliveries error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Send a test payload to the webhook of a rule
+   */
+  async test(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const rule = await AlertRuleModel.findById(id, ownerId(request));
+
+      if (!rule) {
+        return reply.status(404).send({
+          success: false,
+          error: `Alert rule ${id} not found`,
+        });
+      }
+
+      const delivery = await alertService.sendTest(rule);
+
+      return reply.send({
+        success: delivery.status === 'success',
+        data: delivery,
+      });
+    } catch (error: any) {
+      console.error('Test alert rule error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { AnalyticsModel } from '../models/analyticsModel';
+import { AnalyticsFilters } from '../types';
+import { z } from 'zod';
+
+const analyticsQuerySchema = z.object({
+  subreddits: z.string().optional().transform(str => str ? str.split(',').map(name => name.trim()).filter(Boolean) : undefined),
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+});
+
+const topAuthorsQuerySchema = analyticsQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(500).optional().default(20),
+});
+
+/**
+ * Map validated query parameters to analytics filters
+ */
+const toFilters = (data: z.infer<typeof analyticsQuerySchema>): AnalyticsFilters => ({
+  subreddits: data.subreddits,
+  dateRange: data.start || data.end ? {
+    start: data.start,
+    end: data.end,
+  } : undefined,
+});
+
+/**
+ * Send the 400/500 response matching an error
+ */
+const sendError = (reply: FastifyReply, error: any) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors,
+    });
+  }
+
+  return reply.status(500).send({
+    success: false,
+    error: error.message,
+  });
+};
+
+export class AnalyticsController {
+  /**
+   * Posts per day and subreddit
+   */
+  async postsPerDay(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const filters = toFilters(analyticsQuerySchema.parse(request.query));
+      const data = await AnalyticsModel.postsPerDay(filters);
+
+      return reply.send({
+        success: true,
+        count: data.length,
+        data,
+      });
+    } catch (error: any) {
+      console.error('Posts per day error:', error);
+      return sendError(reply, error);
+    }
+  }
+
+  /**
+   * Score mean, median and percentiles per subreddit
+   */
+  async scoreDistribution(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const filters = toFilters(analyticsQuerySchema.parse(request.query));
+      const data = await AnalyticsModel.scoreDistribution(filters);
+
+      return reply.send({
+        success: true,
+        count: data.length,
+        data,
+      });
+    } catch (error: any) {
+      console.error('Score distribution error:', error);
+      return sendError(reply, error);
+    }
+  }
+
+  /**
+   * Comment-to-score ratio per subreddit
+   */
+  async engagement(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const filters = toFilters(analyticsQuerySchema.parse(request.query));
+      const data = await AnalyticsModel.engagement(filters);
+
+      return reply.send({
+        success: true,
+        count: data.length,
+        data,
+      });
+    } catch (error: any) {
+      console.error('Engagement error:', error);
+      return sendError(reply, error);
+    }
+  }
+
+  /**
+   * Most active authors
+   */
+  async topAuthors(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const validatedData = topAuthorsQuerySchema.parse(request.query);
+      const data = await AnalyticsModel.topAuthors(toFilters(validatedData), validatedData.limit);
+
+      return reply.send({
+        success: true,
+        count: data.length,
+        data,
+      });
+    } catch (error: any) {
+      console.error('Top authors error:', error);
+      return sendError(reply, error);
+    }
+  }
+
+  /**
+   * Posting hour heatmap, one cell per UTC day of week and hour
+   */
+  async postingHours(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const filters = toFilters(analyticsQuerySchema.parse(request.query));
+      const data = await AnalyticsModel.postingHours(filters);
+
+      return reply.send({
+        success: true,
+        count: data.length,
+        data,
+      });
+    } catch (error: any) {
+      console.error('Posting hours error:', error);
+      return sendError(reply, error);
+    }
+  }
+}
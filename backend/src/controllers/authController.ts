@@ -0,0 +1,256 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import authService, { AuthError } from '../services/authService';
+import { ApiKeyModel } from '../models/apiKeyModel';
+import { UserRole } from '../types';
+import { idParamsSchema } from '../utils/validation';
+import { z } from 'zod';
+
+// Routes anyone can call, e.g. for load balancer probes
+const PUBLIC_ROUTES = ['/api/health'];
+
+// Routes needing more than the viewer role, matched by route pattern prefix
+const ROLE_REQUIREMENTS: { prefix: string; role: UserRole }[] = [
+  { prefix: '/api/etl/', role: 'operator' },
+];
+
+// EventSource cannot send headers, so the post stream also takes the credential as a query parameter
+const QUERY_TOKEN_ROUTES = ['/api/posts/stream'];
+
+const createKeySchema = z.object({
+  name: z.string().min(1).max(255),
+});
+
+/**
+ * Owner of the saved searches and alert rules of a request, null when authentication is disabled
+ */
+export const ownerId = (request: FastifyRequest): number | null => request.auth?.user.id ?? null;
+
+/**
+ * Route pattern a request was matched to, e.g. /api/etl/jobs/:id. Unlike the raw URL it is not
+ * affected by percent-encoding. Undefined when no route matched.
+ */
+export const routePattern = (request: FastifyRequest): string | undefined => request.routeOptions.url;
+
+/**
+ * Whether a request goes to a route that needs no authentication
+ */
+export const isPublicRoute = (request: FastifyRequest): boolean => {
+  const pattern = routePattern(request);
+  return pattern !== undefined && PUBLIC_ROUTES.includes(pattern);
+};
+
+/**
+ * URL with the value of any access_token query parameter replaced, for request logs
+ */
+export const redactCredentials = (url: string): string => {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) return url;
+
+  const params = url.slice(queryStart + 1).split('&').map(param => {
+    const key = param.split('=')[0];
+    let decodedKey = key;
+    try {
+      decodedKey = decodeURIComponent(key.replace(/\+/g, ' '));
+    } catch {
+      // Malformed escapes are compared as is
+    }
+    return decodedKey === 'access_token' ? `${key}=[REDACTED]` : param;
+  });
+
+  return `${url.slice(0, queryStart + 1)}${params.join('&')}`;
+};
+
+/**
+ * Read the API key or bearer token of a request
+ */
+const readCredential = (request: FastifyRequest, pattern: string | undefined): string | undefined => {
+  const apiKey = request.headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey) return apiKey;
+
+  const authorization = request.headers.authorization;
+  if (authorization && authorization.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim();
+  }
+
+  if (pattern && QUERY_TOKEN_ROUTES.includes(pattern)) {
+    const { access_token } = request.query as { access_token?: string };
+    return access_token || undefined;
+  }
+
+  return undefined;
+};
+
+export class AuthController {
+  /**
+   * onRequest hook: authenticate the caller and check the role the route requires
+   */
+  async onRequest(request: FastifyRequest, reply: FastifyReply) {
+    if (!authService.enabled || request.method === 'OPTIONS') return;
+
+    if (isPublicRoute(request)) return;
+    const pattern = routePattern(request);
+
+    try {
+      const auth = await authService.authenticate(readCredential(request, pattern));
+
+      if (!auth) {
+        return reply.status(401).send({
+          success: false,
+          error: 'Authentication required, send an API key (X-API-Key) or a bearer token',
+        });
+      }
+
+      const requirement = pattern && ROLE_REQUIREMENTS.find(rule => pattern.startsWith(rule.prefix));
+      if (requirement && !authService.hasRole(auth.user.role, requirement.role)) {
+        return reply.status(403).send({
+          success: false,
+          error: `The ${requirement.role} role is required`,
+        });
+      }
+
+      request.auth = auth;
+    } catch (error: any) {
+      if (error instanceof AuthError) {
+        return reply.status(401).send({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      console.error('Authentication error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Get the calling user
+   */
+  async me(request: FastifyRequest, reply: FastifyReply) {
+    if (!request.auth) {
+      return reply.status(401).send({
+        success: false,
+        error: 'Authentication is disabled on this server',
+      });
+    }
+
+    return reply.send({
+      success: true,
+      data: {
+        ...request.auth.user,
+        authMethod: request.auth.method,
+      },
+    });
+  }
+
+  /**
+   * List the API keys of the calling user
+   */
+  async listKeys(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      if (!request.auth) {
+        return reply.status(401).send({
+          success: false,
+          error: 'Authentication is disabled on this server',
+        });
+      }
+
+      const keys = await ApiKeyModel.findByUser(request.auth.user.id);
+
+      return reply.send({
+        success: true,
+        count: keys.length,
+        data: keys,
+      });
+    } catch (error: any) {
+      console.error('List API keys error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Create an API key for the calling user, the key is only shown in this response
+   */
+  async createKey(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      if (!request.auth) {
+        return reply.status(401).send({
+          success: false,
+          error: 'Authentication is disabled on this server',
+        });
+      }
+
+      const { name } = createKeySchema.parse(request.body);
+      const { apiKey, key } = await authService.createApiKey(request.auth.user.id, name);
+
+      return reply.status(201).send({
+        success: true,
+        data: { ...apiKey, key },
+      });
+    } catch (error: any) {
+      console.error('Create API key error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Revoke an API key of the calling user
+   */
+  async revokeKey(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      if (!request.auth) {
+        return reply.status(401).send({
+          success: false,
+          error: 'Authentication is disabled on this server',
+        });
+      }
+
+      const { id } = idParamsSchema.parse(request.params);
+      const revoked = await ApiKeyModel.revoke(id, request.auth.user.id);
+
+      if (!revoked) {
+        return reply.status(404).send({
+          success: false,
+          error: `API key ${id} not found`,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: `API key ${id} revoked`,
+      });
+    } catch (error: any) {
+      console.error('Revoke API key error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+}
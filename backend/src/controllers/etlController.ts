@@ -1,6 +1,10 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import etlService from '../services/etlService';
+import jobQueueService from '../services/jobQueueService';
+import redditService from '../services/redditService';
+import termIdfService from '../services/termIdfService';
 import { SubredditModel } from '../models/subredditModel';
+import { SyncRunModel } from '../models/syncRunModel';
 import { z } from 'zod';
 
 // Les controllers sont la partie du code qui reçoit les requêtes HTTP (depuis un front-end ou un outil comme Postman) et décide quoi faire avec.Ils ne font pas eux-mêmes le “gros travail”, ils passent la main aux services.
@@ -10,17 +14,38 @@ const syncSubredditSchema = z.object({
   limit: z.number().min(1).max(500).optional().default(100),
   timeFilter: z.enum(['hour', 'day', 'week', 'month', 'year', 'all']).optional().default('week'),
   sort: z.enum(['hot', 'new', 'top', 'rising']).optional().default('hot'),
+  commentsForTopPosts: z.number().min(0).max(100).optional().default(0),
+  mode: z.enum(['full', 'incremental']).optional().default('full'),
+  async: z.boolean().optional().default(false),
+});
+
+const syncCommentsSchema = z.object({
+  subreddit: z.string().min(1),
+  postId: z.string().min(1),
+  limit: z.number().min(1).max(500).optional().default(100),
 });
 
 const syncSearchSchema = z.object({
   query: z.string().min(1),
   subreddit: z.string().optional(),
   limit: z.number().min(1).max(500).optional().default(100),
+  async: z.boolean().optional().default(false),
 });
 
 const batchSyncSchema = z.object({
   subreddits: z.array(z.string()).min(1).max(10),
   limit: z.number().min(1).max(100).optional().default(50),
+  async: z.boolean().optional().default(false),
+});
+
+const syncRunsQuerySchema = z.object({
+  subreddit: z.string().min(1).optional(),
+  type: z.enum(['subreddit', 'search', 'comments']).optional(),
+  status: z.enum(['running', 'success', 'failed']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().min(1).max(500).optional().default(50),
+  offset: z.coerce.number().min(0).optional().default(0),
 });
 
 export class ETLController {
@@ -29,13 +54,28 @@ export class ETLController {
    */
   async syncSubreddit(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const validatedData = syncSubredditSchema.parse(request.body);
+      const { async: runAsync, ...validatedData } = syncSubredditSchema.parse(request.body);
+
+      if (runAsync) {
+        const job = await jobQueueService.enqueue('sync-subreddit', validatedData);
+
+        return reply.status(202).send({
+          success: true,
+          message: `Queued sync of r/${validatedData.subreddit}`,
+          jobId: job.id,
+          data: job,
+        });
+      }
 
       const result = await etlService.syncSubreddit(
         validatedData.subreddit,
         validatedData.limit,
         validatedData.timeFilter,
-        validatedData.sort
+        validatedData.sort,
+        {
+          mode: validatedData.mode,
+          commentsForTopPosts: validatedData.commentsForTopPosts,
+        }
       );
 
       return reply.send({
@@ -61,12 +101,59 @@ export class ETLController {
     }
   }
 
+  /**
+   * Sync comments of a single post
+   */
+  async syncComments(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const validatedData = syncCommentsSchema.parse(request.body);
+
+      const result = await etlService.syncPostComments(
+        validatedData.subreddit,
+        validatedData.postId,
+        validatedData.limit
+      );
+
+      return reply.send({
+        success: result.success,
+        message: `Synced ${result.commentsCount} comments for post ${validatedData.postId}`,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Sync comments error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
   /**
    * Sync search results
    */
   async syncSearch(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const validatedData = syncSearchSchema.parse(request.body);
+      const { async: runAsync, ...validatedData } = syncSearchSchema.parse(request.body);
+
+      if (runAsync) {
+        const job = await jobQueueService.enqueue('sync-search', validatedData);
+
+        return reply.status(202).send({
+          success: true,
+          message: `Queued sync of posts matching "${validatedData.query}"`,
+          jobId: job.id,
+          data: job,
+        });
+      }
 
       const result = await etlService.syncSearchResults(
         validatedData.query,
@@ -102,7 +189,18 @@ export class ETLController {
    */
   async batchSync(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const validatedData = batchSyncSchema.parse(request.body);
+      const { async: runAsync, ...validatedData } = batchSyncSchema.parse(request.body);
+
+      if (runAsync) {
+        const job = await jobQueueService.enqueue('batch-sync', validatedData);
+
+        return reply.status(202).send({
+          success: true,
+          message: `Queued batch sync of ${validatedData.subreddits.length} subreddits`,
+          jobId: job.id,
+          data: job,
+        });
+      }
 
       const results = await etlService.syncMultipleSubreddits(
         validatedData.subreddits,
@@ -144,6 +242,176 @@ export class ETLController {
     }
   }
 
+  /**
+   * Get status and progress of an ETL job
+   */
+  async getJob(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const job = await jobQueueService.getJob(id);
+
+      if (!job) {
+        return reply.status(404).send({
+          success: false,
+          error: `Job ${id} not found`,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: job,
+      });
+    } catch (error: any) {
+      console.error('Get job error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Cancel a queued or running ETL job
+   */
+  async cancelJob(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const job = await jobQueueService.cancel(id);
+
+      if (!job) {
+        return reply.status(404).send({
+          success: false,
+          error: `Job ${id} not found`,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: job.status === 'running'
+          ? `Cancellation requested, job ${id} stops after its current subreddit`
+          : `Job ${id} is ${job.status}`,
+        data: job,
+      });
+    } catch (error: any) {
+      console.error('Cancel job error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Retry a failed or cancelled ETL job
+   */
+  async retryJob(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const job = await jobQueueService.getJob(id);
+
+      if (!job) {
+        return reply.status(404).send({
+          success: false,
+          error: `Job ${id} not found`,
+        });
+      }
+
+      if (job.status !== 'failed' && job.status !== 'cancelled') {
+        return reply.status(409).send({
+          success: false,
+          error: `Only failed or cancelled jobs can be retried (job is ${job.status})`,
+        });
+      }
+
+      const retried = await jobQueueService.retry(id);
+
+      return reply.status(202).send({
+        success: true,
+        message: `Job ${id} re-queued`,
+        jobId: id,
+        data: retried,
+      });
+    } catch (error: any) {
+      console.error('Retry job error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Get sync run history
+   */
+  async getRuns(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const filters = syncRunsQuerySchema.parse(request.query);
+      const runs = await SyncRunModel.find(filters);
+
+      return reply.send({
+        success: true,
+        count: runs.length,
+        data: runs,
+      });
+    } catch (error: any) {
+      console.error('Get sync runs error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Get the status, last error and rate limit of each Reddit credential
+   */
+  async getCredentials(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const credentials = await redditService.getCredentialsStatus();
+
+      return reply.send({
+        success: true,
+        count: credentials.length,
+        data: credentials,
+      });
+    } catch (error: any) {
+      console.error('Get Reddit credentials error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Recompute the search IDF statistics now
+   */
+  async refreshTermIdf(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      await termIdfService.refresh();
+
+      return reply.send({
+        success: true,
+        message: 'Search term IDF refreshed',
+      });
+    } catch (error: any) {
+      console.error('Refresh term IDF error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
   /**
    * Get all synced subreddits
    */
@@ -0,0 +1,64 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import realtimeService from '../services/realtimeService';
+import { z } from 'zod';
+
+const commaList = z.string().optional().transform(str => str ? str.split(',').map(item => item.trim()).filter(Boolean) : undefined);
+
+const streamQuerySchema = z.object({
+  subreddits: commaList,
+  keywords: commaList,
+  minScore: z.coerce.number().optional(),
+});
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = parseInt(process.env.REALTIME_HEARTBEAT_MS || '25000');
+
+export class RealtimeController {
+  /**
+   * Server-Sent Events stream of newly ingested posts matching the query filter
+   */
+  async streamPosts(request: FastifyRequest, reply: FastifyReply) {
+    let filter;
+    try {
+      filter = streamQuerySchema.parse(request.query);
+    } catch (error: any) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    const send = (event: string, data: any) => {
+      reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let removeSubscriber: () => Promise<void>;
+    try {
+      removeSubscriber = await realtimeService.addSubscriber(filter, post => send('post', post));
+    } catch (error: any) {
+      console.error('Post stream error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    // From here on the response is written by hand
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      ...(reply.getHeaders() as Record<string, string>),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    send('ready', { filter });
+
+    const heartbeat = setInterval(() => reply.raw.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+    request.raw.on('close', () => {
+      clearInterval(heartbeat);
+      removeSubscriber().catch(error => console.error('Post stream unsubscribe error:', error));
+    });
+  }
+}
@@ -0,0 +1,246 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { PostModel } from '../models/postModel';
+import { SavedSearchModel } from '../models/savedSearchModel';
+import { QuerySyntaxError, parseQuery } from '../utils/queryParser';
+import { InvalidCursorError } from '../utils/cursor';
+import { idParamsSchema } from '../utils/validation';
+import { searchSchema, toSearchQuery } from './searchController';
+import { ownerId } from './authController';
+import { z } from 'zod';
+
+const savedSearchSchema = z.object({
+  name: z.string().min(1).max(255),
+  query: searchSchema,
+});
+
+const runSchema = z.object({
+  // Only return posts this saved search has not returned in a previous run
+  newOnly: z.boolean().optional().default(false),
+  limit: z.number().min(1).max(500).optional(),
+  offset: z.number().min(0).optional(),
+  cursor: z.string().min(1).optional(),
+}).refine(options => !(options.newOnly && options.offset !== undefined), {
+  // Returned posts drop out of a newOnly search, an offset would skip as many unseen ones
+  message: 'offset cannot be combined with newOnly, page with the cursor instead',
+  path: ['offset'],
+});
+
+/**
+ * Validate a saved search payload, the boolean query is parsed up front so a
+ * broken query is rejected when saved rather than on every run
+ */
+const parseSavedSearch = (body: unknown) => {
+  const validatedData = savedSearchSchema.parse(body);
+
+  if (validatedData.query.query) {
+    parseQuery(validatedData.query.query);
+  }
+
+  return validatedData;
+};
+
+/**
+ * Send the 400/500 response matching an error
+ */
+const sendError = (reply: FastifyReply, error: any) => {
+  if (error instanceof z.ZodError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Validation error',
+      details: error.errors,
+    });
+  }
+
+  if (error instanceof QuerySyntaxError) {
+    return reply.status(400).send({
+      success: false,
+      error: 'Query syntax error',
+      details: {
+        message: error.message,
+        position: error.position,
+      },
+    });
+  }
+
+  if (error instanceof InvalidCursorError) {
+    return reply.status(400).send({
+      success: false,
+      error: error.message,
+    });
+  }
+
+  return reply.status(500).send({
+    success: false,
+    error: error.message,
+  });
+};
+
+export class SavedSearchController {
+  /**
+   * List all saved searches
+   */
+  async list(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const searches = await SavedSearchModel.findAll(ownerId(request));
+
+      return reply.send({
+        success: true,
+        count: searches.length,
+        data: searches,
+      });
+    } catch (error: any) {
+      console.error('List saved searches error:', error);
+      return sendError(reply, error);
+    }
+  }
+
+  /**
+   * Get a single saved search
+   */
+  async get(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const search = await SavedSearchModel.findById(id, ownerId(request));
+
+      if (!search) {
+        return reply.status(404).send({
+          success: false,
+          error: `Saved search ${id} not found`,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: search,
+      });
+    } catch (error: any) {
+      console.error('Get saved search error:', error);
+      return sendError(reply, error);
+    }
+  }
+
+  /**
+   * Save a search
+   */
+  async create(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const validatedData = parseSavedSearch(request.body);
+      const created = await SavedSearchModel.create(ownerId(request), validatedData.name, validatedData.query);
+
+      return reply.status(201).send({
+        success: true,
+        data: created,
+      });
+    } catch (error: any) {
+      console.error('Create saved search error:', error);
+      return sendError(reply, error);
+    }
+  }
+
+  /**
+   * Update a saved search, fields not provided are kept
+   */
+  async update(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const existing = await SavedSearchModel.findById(id, ownerId(request));
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: `Saved search ${id} not found`,
+        });
+      }
+
+      const validatedData = parseSavedSearch({
+        name: existing.name,
+        query: existing.query,
+        ...(request.body as object),
+      });
+
+      const updated = await SavedSearchModel.update(existing.id!, validatedData.name, validatedData.query);
+
+      return reply.send({
+        success: true,
+        data: updated,
+      });
+    } catch (error: any) {
+      console.error('Update saved search error:', error);
+      return sendError(reply, error);
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async delete(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const deleted = await SavedSearchModel.delete(id, ownerId(request));
+
+      if (!deleted) {
+        return reply.status(404).send({
+          success: false,
+          error: `Saved search ${id} not found`,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: `Saved search ${id} deleted`,
+      });
+    } catch (error: any) {
+      console.error('Delete saved search error:', error);
+      return sendError(reply, error);
+    }
+  }
+
+  /**
+   * Run a saved search, optionally returning only posts not matched by a previous run
+   */
+  async run(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const options = runSchema.parse(request.body || {});
+      const search = await SavedSearchModel.findById(id, ownerId(request));
+
+      if (!search) {
+        return reply.status(404).send({
+          success: false,
+          error: `Saved search ${id} not found`,
+        });
+      }
+
+      const searchQuery = toSearchQuery(searchSchema.parse({
+        ...search.query,
+        ...(options.limit !== undefined && { limit: options.limit }),
+        ...(options.offset !== undefined && { offset: options.offset }),
+        ...(options.cursor !== undefined && { cursor: options.cursor }),
+      }));
+
+      if (options.newOnly) {
+        searchQuery.unseenBySavedSearch = search.id;
+      }
+
+      // Counted before recording, a newOnly count would otherwise miss this page
+      const [page, total] = await Promise.all([
+        PostModel.search(searchQuery),
+        PostModel.countSearch(searchQuery, 'exact'),
+      ]);
+      await SavedSearchModel.recordRun(search.id!, page.results.map(post => post.id!), total);
+
+      return reply.send({
+        success: true,
+        count: page.results.length,
+        total,
+        nextCursor: page.nextCursor,
+        data: page.results,
+        newOnly: options.newOnly,
+        previousRunAt: search.last_run_at || null,
+      });
+    } catch (error: any) {
+      console.error('Run saved search error:', error);
+      return sendError(reply, error);
+    }
+  }
+}
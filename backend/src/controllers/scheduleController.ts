@@ -0,0 +1,261 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { parseExpression } from 'cron-parser';
+import schedulerService from '../services/schedulerService';
+import { ScheduleModel } from '../models/scheduleModel';
+import { SyncSchedule } from '../types';
+import { idParamsSchema } from '../utils/validation';
+import { z } from 'zod';
+
+const subredditSorts = ['hot', 'new', 'top', 'rising'];
+const searchSorts = ['relevance', 'hot', 'top', 'new', 'comments'];
+
+const scheduleSchema = z.object({
+  name: z.string().min(1),
+  subreddit: z.string().min(1).nullable().optional(),
+  query: z.string().min(1).nullable().optional(),
+  cron: z.string().min(1).nullable().optional(),
+  intervalSeconds: z.number().int().min(60).nullable().optional(),
+  sort: z.enum(['hot', 'new', 'top', 'rising', 'relevance', 'comments']).optional(),
+  timeFilter: z.enum(['hour', 'day', 'week', 'month', 'year', 'all']).optional().default('week'),
+  limit: z.number().min(1).max(500).optional().default(100),
+  enabled: z.boolean().optional().default(true),
+}).superRefine((data, ctx) => {
+  if (!data.subreddit && !data.query) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Either subreddit or query is required' });
+  }
+
+  if (!data.cron && !data.intervalSeconds) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Either cron or intervalSeconds is required' });
+  }
+
+  if (data.cron) {
+    try {
+      parseExpression(data.cron);
+    } catch (error: any) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cron'], message: `Invalid cron expression: ${error.message}` });
+    }
+  }
+
+  if (data.sort) {
+    const allowedSorts = data.query ? searchSorts : subredditSorts;
+    if (!allowedSorts.includes(data.sort)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sort'], message: `Sort must be one of: ${allowedSorts.join(', ')}` });
+    }
+  }
+});
+
+type ScheduleInput = z.infer<typeof scheduleSchema>;
+
+/**
+ * Map validated API input to a schedule row
+ */
+const toSchedule = (data: ScheduleInput): Omit<SyncSchedule, 'id'> => ({
+  name: data.name,
+  subreddit: data.subreddit || null,
+  search_query: data.query || null,
+  cron_expression: data.cron || null,
+  interval_seconds: data.cron ? null : data.intervalSeconds || null,
+  sort: data.sort || (data.query ? 'relevance' : 'hot'),
+  time_filter: data.timeFilter,
+  post_limit: data.limit,
+  enabled: data.enabled,
+});
+
+/**
+ * Map a schedule row back to API input, used to merge partial updates
+ */
+const toInput = (schedule: SyncSchedule) => ({
+  name: schedule.name,
+  subreddit: schedule.subreddit,
+  query: schedule.search_query,
+  cron: schedule.cron_expression,
+  intervalSeconds: schedule.interval_seconds,
+  sort: schedule.sort,
+  timeFilter: schedule.time_filter,
+  limit: schedule.post_limit,
+  enabled: schedule.enabled,
+});
+
+export class ScheduleController {
+  /**
+   * List all schedules
+   */
+  async list(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const schedules = await ScheduleModel.findAll();
+
+      return reply.send({
+        success: true,
+        count: schedules.length,
+        data: schedules,
+      });
+    } catch (error: any) {
+      console.error('List schedules error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Get a single schedule
+   */
+  async get(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const schedule = await ScheduleModel.findById(id);
+
+      if (!schedule) {
+        return reply.status(404).send({
+          success: false,
+          error: `Schedule ${id} not found`,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: schedule,
+      });
+    } catch (error: any) {
+      console.error('Get schedule error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Create a schedule
+   */
+  async create(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const validatedData = scheduleSchema.parse(request.body);
+      const schedule = toSchedule(validatedData);
+
+      const created = await ScheduleModel.create({
+        ...schedule,
+        next_run_at: schedulerService.computeNextRun(schedule),
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: created,
+      });
+    } catch (error: any) {
+      console.error('Create schedule error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Update a schedule, fields not provided are kept
+   */
+  async update(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const existing = await ScheduleModel.findById(id);
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: `Schedule ${id} not found`,
+        });
+      }
+
+      const body = (request.body || {}) as Record<string, any>;
+      const validatedData = scheduleSchema.parse({
+        ...toInput(existing),
+        // Giving one trigger replaces the other, a cron schedule switched to an interval loses its cron
+        ...(body.intervalSeconds != null && { cron: null }),
+        ...(body.cron != null && { intervalSeconds: null }),
+        ...body,
+      });
+      const schedule = toSchedule(validatedData);
+
+      const updated = await ScheduleModel.update(existing.id!, {
+        ...schedule,
+        next_run_at: schedulerService.computeNextRun(schedule),
+      });
+
+      return reply.send({
+        success: true,
+        data: updated,
+      });
+    } catch (error: any) {
+      console.error('Update schedule error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Delete a schedule
+   */
+  async delete(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = idParamsSchema.parse(request.params);
+      const deleted = await ScheduleModel.delete(id);
+
+      if (!deleted) {
+        return reply.status(404).send({
+          success: false,
+          error: `Schedule ${id} not found`,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: `Schedule ${id} deleted`,
+      });
+    } catch (error: any) {
+      console.error('Delete schedule error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+}
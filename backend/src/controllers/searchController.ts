@@ -1,14 +1,27 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { PostModel } from '../models/postModel';
-import { SearchQuery } from '../types';
+import { CommentModel } from '../models/commentModel';
+import { PostSnapshotModel } from '../models/postSnapshotModel';
+import { SearchQuery, TrendingQuery } from '../types';
+import exportService, { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, EXPORT_CONTENT_TYPES } from '../services/exportService';
+import { QuerySyntaxError, parseQuery } from '../utils/queryParser';
+import { InvalidCursorError } from '../utils/cursor';
 import { z } from 'zod';
 
 // Ce controller contient les routes qui servent à chercher des données déjà stockées, par exemple :chercher des posts,filtrer par subreddit,chercher un auteur,filtrer par date, nombre de votes, etc.
 
-const searchSchema = z.object({
-  keywords: z.array(z.string()).min(1, 'At least one keyword is required'),
+const searchSorts = ['relevance', 'score', 'comments', 'newest', 'oldest', 'controversial', 'hot'] as const;
+
+export const searchSchema = z.object({
+  keywords: z.array(z.string()).optional(),
+  query: z.string().max(1000).optional(),
   requiredKeywords: z.array(z.string()).optional(),
+  excludedKeywords: z.array(z.string().min(1)).optional(),
   subreddits: z.array(z.string()).optional(),
+  excludedSubreddits: z.array(z.string().min(1)).optional(),
+  excludedAuthors: z.array(z.string().min(1)).optional(),
+  excludeRemoved: z.boolean().optional().default(false),
+  excludeAutoModerator: z.boolean().optional().default(false),
   minUpvotes: z.number().min(0).optional(),
   minKarma: z.number().min(0).optional(),
   dateRange: z.object({
@@ -17,6 +30,59 @@ const searchSchema = z.object({
   }).optional(),
   limit: z.number().min(1).max(500).optional().default(50),
   offset: z.number().min(0).optional().default(0),
+  sort: z.enum(searchSorts).optional().default('relevance'),
+  tiebreaker: z.enum(searchSorts).optional(),
+  cursor: z.string().min(1).optional(),
+  total: z.enum(['exact', 'estimated']).optional(),
+  facets: z.array(z.enum(['subreddit', 'author', 'day', 'week', 'score'])).optional(),
+  facetSize: z.number().int().min(1).max(100).optional().default(10),
+}).refine(data => (data.keywords && data.keywords.length > 0) || data.query, {
+  message: 'At least one keyword or a query is required',
+  path: ['keywords'],
+});
+
+/**
+ * Map a validated search payload to a SearchQuery
+ */
+export const toSearchQuery = ({ total, facets, facetSize, ...data }: z.infer<typeof searchSchema>): SearchQuery => ({
+  ...data,
+  dateRange: data.dateRange ? {
+    start: data.dateRange.start!,
+    end: data.dateRange.end!,
+  } : undefined,
+});
+
+const trendingQuerySchema = z.object({
+  subreddits: z.string().optional().transform(str => str ? str.split(',').map(name => name.trim()).filter(Boolean) : undefined),
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+  windowHours: z.coerce.number().min(1).max(720).optional().default(24),
+  limit: z.coerce.number().min(1).max(500).optional().default(50),
+});
+
+const exportQuerySchema = z.object({
+  format: z.string().optional().default('csv').superRefine((format, ctx) => {
+    if (format === 'parquet') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Parquet export is not supported yet, use csv, json or ndjson' });
+    } else if (!Object.hasOwn(EXPORT_CONTENT_TYPES, format)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Format must be one of: csv, json, ndjson' });
+    }
+  }).transform(format => format as keyof typeof EXPORT_CONTENT_TYPES),
+  columns: z.string().optional()
+    .transform(str => str ? str.split(',').map(column => column.trim()).filter(Boolean) : DEFAULT_EXPORT_COLUMNS)
+    .refine(columns => columns.length > 0 && columns.every(column => Object.hasOwn(EXPORT_COLUMNS, column)), {
+      message: `Columns must be among: ${Object.keys(EXPORT_COLUMNS).join(', ')}`,
+    }),
+});
+
+const recentQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(500).optional().default(50),
+  cursor: z.string().min(1).optional(),
+});
+
+const historyQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
 });
 
 export class SearchController {
@@ -27,20 +93,21 @@ export class SearchController {
     try {
       const validatedData = searchSchema.parse(request.body);
 
-      const searchQuery: SearchQuery = {
-        ...validatedData,
-        dateRange: validatedData.dateRange ? {
-          start: validatedData.dateRange.start!,
-          end: validatedData.dateRange.end!,
-        } : undefined,
-      };
+      const searchQuery = toSearchQuery(validatedData);
 
-      const results = await PostModel.search(searchQuery);
+      const [page, total, facets] = await Promise.all([
+        PostModel.search(searchQuery),
+        validatedData.total ? PostModel.countSearch(searchQuery, validatedData.total) : undefined,
+        validatedData.facets ? PostModel.getFacets(searchQuery, validatedData.facets, validatedData.facetSize) : undefined,
+      ]);
 
       return reply.send({
         success: true,
-        count: results.length,
-        data: results,
+        count: page.results.length,
+        ...(total !== undefined && { total, totalIsEstimate: validatedData.total === 'estimated' }),
+        nextCursor: page.nextCursor,
+        ...(facets && { facets }),
+        data: page.results,
         query: searchQuery,
       });
     } catch (error: any) {
@@ -54,6 +121,24 @@ export class SearchController {
         });
       }
 
+      if (error instanceof QuerySyntaxError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Query syntax error',
+          details: {
+            message: error.message,
+            position: error.position,
+          },
+        });
+      }
+
+      if (error instanceof InvalidCursorError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+        });
+      }
+
       return reply.status(500).send({
         success: false,
         error: error.message || 'Internal server error',
@@ -61,22 +146,213 @@ export class SearchController {
     }
   }
 
+  /**
+   * Export every post matching a search as CSV, JSON or NDJSON, streamed from a database cursor
+   */
+  async export(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { format, columns } = exportQuerySchema.parse(request.query);
+      const validatedData = searchSchema.parse(request.body);
+
+      // Syntax errors must be reported before the response starts streaming
+      if (validatedData.query) {
+        parseQuery(validatedData.query);
+      }
+
+      const filename = `posts-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      return reply
+        .header('Content-Type', EXPORT_CONTENT_TYPES[format])
+        .header('Content-Disposition', `attachment; filename="${filename}"`)
+        .send(exportService.stream(toSearchQuery(validatedData), format, columns));
+    } catch (error: any) {
+      console.error('Export error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      if (error instanceof QuerySyntaxError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Query syntax error',
+          details: {
+            message: error.message,
+            position: error.position,
+          },
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
   /**
    * Get recent posts
    */
   async getRecent(request: FastifyRequest, reply: FastifyReply) {
     try {
-      const { limit = 50 } = request.query as { limit?: number };
+      const { limit, cursor } = recentQuerySchema.parse(request.query);
 
-      const posts = await PostModel.findRecent(limit);
+      const page = await PostModel.findRecent(limit, cursor);
 
       return reply.send({
         success: true,
-        count: posts.length,
-        data: posts,
+        count: page.results.length,
+        nextCursor: page.nextCursor,
+        data: page.results,
       });
     } catch (error: any) {
       console.error('Get recent posts error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      if (error instanceof InvalidCursorError) {
+        return reply.status(400).send({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Get stored comments of a post
+   */
+  async getComments(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { redditId } = request.params as { redditId: string };
+
+      const post = await PostModel.findByRedditId(redditId);
+      if (!post) {
+        return reply.status(404).send({
+          success: false,
+          error: `Post ${redditId} not found`,
+        });
+      }
+
+      const comments = await CommentModel.findByPost(post.id!);
+
+      return reply.send({
+        success: true,
+        count: comments.length,
+        data: comments,
+      });
+    } catch (error: any) {
+      console.error('Get comments error:', error);
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Get posts whose score and comments grow fastest
+   */
+  async getTrending(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const validatedData = trendingQuerySchema.parse(request.query);
+
+      const trendingQuery: TrendingQuery = {
+        subreddits: validatedData.subreddits,
+        dateRange: validatedData.start || validatedData.end ? {
+          start: validatedData.start,
+          end: validatedData.end,
+        } : undefined,
+        windowHours: validatedData.windowHours,
+        limit: validatedData.limit,
+      };
+
+      const results = await PostModel.findTrending(trendingQuery);
+
+      return reply.send({
+        success: true,
+        count: results.length,
+        data: results,
+        query: trendingQuery,
+      });
+    } catch (error: any) {
+      console.error('Get trending error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Get score and comment count history of a post
+   */
+  async getHistory(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { redditId } = request.params as { redditId: string };
+      const { from, to } = historyQuerySchema.parse(request.query);
+
+      const post = await PostModel.findByRedditId(redditId);
+      if (!post) {
+        return reply.status(404).send({
+          success: false,
+          error: `Post ${redditId} not found`,
+        });
+      }
+
+      const snapshots = await PostSnapshotModel.findByPost(post.id!, from, to);
+
+      return reply.send({
+        success: true,
+        post: {
+          reddit_id: post.reddit_id,
+          title: post.title,
+          created_utc: post.created_utc,
+        },
+        count: snapshots.length,
+        data: snapshots.map(snapshot => ({
+          captured_at: snapshot.captured_at,
+          score: snapshot.score,
+          upvotes: snapshot.upvotes,
+          downvotes: snapshot.downvotes,
+          comment_count: snapshot.comment_count,
+        })),
+      });
+    } catch (error: any) {
+      console.error('Get post history error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
       return reply.status(500).send({
         success: false,
         error: error.message,
@@ -0,0 +1,139 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import rateLimitService from '../services/rateLimitService';
+import authService from '../services/authService';
+import { ApiKeyModel } from '../models/apiKeyModel';
+import { isPublicRoute, routePattern } from './authController';
+import { ClientUsage, QuotaCategory } from '../types';
+import { z } from 'zod';
+
+// Routes counted against a daily quota, by method and route pattern
+const QUOTA_ROUTES: Record<string, QuotaCategory> = {
+  'POST /api/etl/sync-subreddit': 'etl',
+  'POST /api/etl/sync-comments': 'etl',
+  'POST /api/etl/sync-search': 'etl',
+  'POST /api/etl/batch-sync': 'etl',
+  'POST /api/etl/jobs/:id/retry': 'etl',
+  'POST /api/posts/search': 'search',
+  'POST /api/posts/export': 'search',
+  'POST /api/searches/:id/run': 'search',
+};
+
+const usageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(30).optional().default(7),
+  // Operators only: usage of every key instead of their own
+  all: z.enum(['true', 'false']).optional().default('false').transform(value => value === 'true'),
+});
+
+/**
+ * Client a request is counted against: its API key, its user for bearer tokens, its IP when authentication is disabled
+ */
+const subjectOf = (request: FastifyRequest): string => {
+  if (request.auth?.apiKeyId) return `key:${request.auth.apiKeyId}`;
+  if (request.auth) return `user:${request.auth.user.id}`;
+  return `ip:${request.ip}`;
+};
+
+export class UsageController {
+  /**
+   * onRequest hook, registered after authentication: enforce the per-minute limit and daily quotas
+   */
+  async onRequest(request: FastifyRequest, reply: FastifyReply) {
+    if (request.method === 'OPTIONS' || isPublicRoute(request)) return;
+
+    try {
+      const category = QUOTA_ROUTES[`${request.method} ${routePattern(request)}`];
+      const decision = await rateLimitService.consume(subjectOf(request), category);
+
+      reply.header('X-RateLimit-Limit', decision.limit);
+      reply.header('X-RateLimit-Remaining', decision.remaining);
+      reply.header('X-RateLimit-Reset', decision.resetAt);
+      if (decision.category) {
+        reply.header('X-RateLimit-Quota-Category', decision.category);
+        reply.header('X-RateLimit-Quota-Limit', decision.quotaLimit);
+        reply.header('X-RateLimit-Quota-Remaining', decision.quotaRemaining);
+      }
+
+      if (!decision.allowed) {
+        return reply
+          .status(429)
+          .header('Retry-After', decision.retryAfter)
+          .send({
+            success: false,
+            error: decision.reason === 'quota'
+              ? `Daily ${decision.category} quota of ${decision.quotaLimit} requests exceeded`
+              : `Rate limit of ${decision.limit} requests per minute exceeded`,
+            retryAfter: decision.retryAfter,
+          });
+      }
+    } catch (error: any) {
+      // Redis being down should not take the API down with it
+      console.error('Rate limit error:', error);
+    }
+  }
+
+  /**
+   * Daily consumption of the caller's API keys, or of every key for operators with all=true
+   */
+  async getUsage(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { days, all } = usageQuerySchema.parse(request.query);
+
+      if (!request.auth) {
+        return reply.send({
+          success: true,
+          limits: rateLimitService.getLimits(),
+          data: await rateLimitService.getUsage(subjectOf(request), days),
+        });
+      }
+
+      if (all && !authService.hasRole(request.auth.user.role, 'operator')) {
+        return reply.status(403).send({
+          success: false,
+          error: 'The operator role is required',
+        });
+      }
+
+      const keys = all ? await ApiKeyModel.findAll() : await ApiKeyModel.findByUser(request.auth.user.id);
+      const usage: ClientUsage[] = await Promise.all(keys.map(async key => ({
+        apiKeyId: key.id,
+        name: key.name,
+        keyPrefix: key.key_prefix,
+        userId: key.user_id,
+        revokedAt: key.revoked_at || null,
+        days: await rateLimitService.getUsage(`key:${key.id}`, days),
+      })));
+
+      // Requests made with a bearer token are counted per user
+      usage.push({
+        apiKeyId: null,
+        name: 'Bearer token',
+        keyPrefix: null,
+        userId: request.auth.user.id,
+        revokedAt: null,
+        days: await rateLimitService.getUsage(`user:${request.auth.user.id}`, days),
+      });
+
+      return reply.send({
+        success: true,
+        limits: rateLimitService.getLimits(),
+        count: usage.length,
+        data: usage,
+      });
+    } catch (error: any) {
+      console.error('Get usage error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Validation error',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+}
@@ -4,25 +4,59 @@ import dotenv from 'dotenv';
 import { connectRedis } from './utils/redis';
 import pool from './utils/database';
 import redditService from './services/redditService';
+import schedulerService from './services/schedulerService';
+import jobQueueService from './services/jobQueueService';
+import alertService from './services/alertService';
+import termIdfService from './services/termIdfService';
 import { SearchController } from './controllers/searchController';
 import { ETLController } from './controllers/etlController';
+import { ScheduleController } from './controllers/scheduleController';
+import { SavedSearchController } from './controllers/savedSearchController';
+import { AlertController } from './controllers/alertController';
+import { AnalyticsController } from './controllers/analyticsController';
+import { RealtimeController } from './controllers/realtimeController';
+import { AuthController, redactCredentials } from './controllers/authController';
+import { UsageController } from './controllers/usageController';
 
 dotenv.config();
 
 const fastify = Fastify({
   logger: {
     level: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
+    serializers: {
+      // The post stream takes credentials in its query string, keep them out of the logs
+      req: request => ({
+        method: request.method,
+        url: redactCredentials(request.url),
+        hostname: request.hostname,
+        remoteAddress: request.ip,
+        remotePort: request.socket?.remotePort,
+      }),
+    },
   },
 });
 
 const searchController = new SearchController();
 const etlController = new ETLController();
+const scheduleController = new ScheduleController();
+const savedSearchController = new SavedSearchController();
+const alertController = new AlertController();
+const analyticsController = new AnalyticsController();
+const realtimeController = new RealtimeController();
+const authController = new AuthController();
+const usageController = new UsageController();
 
 // CORS
 fastify.register(cors, {
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
 });
 
+// Authentication, every route except the health check needs an API key or a bearer token
+fastify.addHook('onRequest', authController.onRequest.bind(authController));
+
+// Per-client rate limit and daily quotas, counted per API key
+fastify.addHook('onRequest', usageController.onRequest.bind(usageController));
+
 // Health check
 fastify.get('/api/health', async (request, reply) => {
   try {
@@ -33,17 +67,20 @@ fastify.get('/api/health', async (request, reply) => {
     const redis = await connectRedis();
     await redis.ping();
 
-    // Get rate limit status
-    const rateLimitStatus = redditService.getRateLimitStatus();
+    // Only counts here, the route is public: per-credential detail is on /api/etl/credentials
+    const credentials = await redditService.getCredentialsStatus();
+    const healthyCredentials = credentials.filter(credential => credential.status === 'healthy').length;
 
     return {
-      status: 'healthy',
+      // Syncs cannot run while every credential is out of rotation
+      status: healthyCredentials > 0 ? 'healthy' : 'degraded',
       timestamp: new Date().toISOString(),
       services: {
         database: 'connected',
         redis: 'connected',
         reddit: {
-          rateLimit: rateLimitStatus,
+          healthyCredentials,
+          totalCredentials: credentials.length,
         },
       },
     };
@@ -55,17 +92,67 @@ fastify.get('/api/health', async (request, reply) => {
   }
 });
 
+// Auth routes
+fastify.get('/api/auth/me', authController.me.bind(authController));
+fastify.get('/api/auth/keys', authController.listKeys.bind(authController));
+fastify.post('/api/auth/keys', authController.createKey.bind(authController));
+fastify.delete('/api/auth/keys/:id', authController.revokeKey.bind(authController));
+fastify.get('/api/usage', usageController.getUsage.bind(usageController));
+
 // Search routes
 fastify.post('/api/posts/search', searchController.search.bind(searchController));
+fastify.post('/api/posts/export', searchController.export.bind(searchController));
 fastify.get('/api/posts/recent', searchController.getRecent.bind(searchController));
 fastify.get('/api/posts/stats', searchController.getStats.bind(searchController));
+fastify.get('/api/posts/trending', searchController.getTrending.bind(searchController));
+fastify.get('/api/posts/stream', realtimeController.streamPosts.bind(realtimeController));
+fastify.get('/api/posts/:redditId/history', searchController.getHistory.bind(searchController));
+fastify.get('/api/posts/:redditId/comments', searchController.getComments.bind(searchController));
+
+// Analytics routes
+fastify.get('/api/analytics/posts-per-day', analyticsController.postsPerDay.bind(analyticsController));
+fastify.get('/api/analytics/score-distribution', analyticsController.scoreDistribution.bind(analyticsController));
+fastify.get('/api/analytics/engagement', analyticsController.engagement.bind(analyticsController));
+fastify.get('/api/analytics/top-authors', analyticsController.topAuthors.bind(analyticsController));
+fastify.get('/api/analytics/posting-hours', analyticsController.postingHours.bind(analyticsController));
 
 // ETL routes
 fastify.post('/api/etl/sync-subreddit', etlController.syncSubreddit.bind(etlController));
+fastify.post('/api/etl/sync-comments', etlController.syncComments.bind(etlController));
 fastify.post('/api/etl/sync-search', etlController.syncSearch.bind(etlController));
 fastify.post('/api/etl/batch-sync', etlController.batchSync.bind(etlController));
+fastify.get('/api/etl/runs', etlController.getRuns.bind(etlController));
+fastify.get('/api/etl/credentials', etlController.getCredentials.bind(etlController));
+fastify.post('/api/etl/term-idf/refresh', etlController.refreshTermIdf.bind(etlController));
+fastify.get('/api/etl/jobs/:id', etlController.getJob.bind(etlController));
+fastify.post('/api/etl/jobs/:id/cancel', etlController.cancelJob.bind(etlController));
+fastify.post('/api/etl/jobs/:id/retry', etlController.retryJob.bind(etlController));
 fastify.get('/api/subreddits', etlController.getSubreddits.bind(etlController));
 
+// Schedule routes
+fastify.get('/api/etl/schedules', scheduleController.list.bind(scheduleController));
+fastify.post('/api/etl/schedules', scheduleController.create.bind(scheduleController));
+fastify.get('/api/etl/schedules/:id', scheduleController.get.bind(scheduleController));
+fastify.put('/api/etl/schedules/:id', scheduleController.update.bind(scheduleController));
+fastify.delete('/api/etl/schedules/:id', scheduleController.delete.bind(scheduleController));
+
+// Saved search routes
+fastify.get('/api/searches', savedSearchController.list.bind(savedSearchController));
+fastify.post('/api/searches', savedSearchController.create.bind(savedSearchController));
+fastify.get('/api/searches/:id', savedSearchController.get.bind(savedSearchController));
+fastify.put('/api/searches/:id', savedSearchController.update.bind(savedSearchController));
+fastify.delete('/api/searches/:id', savedSearchController.delete.bind(savedSearchController));
+fastify.post('/api/searches/:id/run', savedSearchController.run.bind(savedSearchController));
+
+// Alert routes
+fastify.get('/api/alerts', alertController.list.bind(alertController));
+fastify.post('/api/alerts', alertController.create.bind(alertController));
+fastify.get('/api/alerts/:id', alertController.get.bind(alertController));
+fastify.put('/api/alerts/:id', alertController.update.bind(alertController));
+fastify.delete('/api/alerts/:id', alertController.delete.bind(alertController));
+fastify.get('/api/alerts/:id/deliveries', alertController.getDeliveries.bind(alertController));
+fastify.post('/api/alerts/:id/test', alertController.test.bind(alertController));
+
 // Start server
 const start = async () => {
   try {
@@ -80,6 +167,26 @@ const start = async () => {
     const port = parseInt(process.env.PORT || '3000');
     await fastify.listen({ port, host: '0.0.0.0' });
 
+    // Start the recurring sync worker
+    if (process.env.SCHEDULER_ENABLED !== 'false') {
+      schedulerService.start();
+    }
+
+    // Start the async ETL job worker
+    if (process.env.JOB_WORKER_ENABLED !== 'false') {
+      jobQueueService.start();
+    }
+
+    // Start the alert webhook delivery worker
+    if (process.env.ALERT_WORKER_ENABLED !== 'false') {
+      alertService.start();
+    }
+
+    // Start the search IDF statistics refresh
+    if (process.env.TERM_IDF_REFRESH_ENABLED !== 'false') {
+      termIdfService.start();
+    }
+
     console.log(`\n🚀 Reddit Analyzer API running on http://localhost:${port}`);
     console.log(`📊 Health check: http://localhost:${port}/api/health\n`);
   } catch (err) {
@@ -0,0 +1,112 @@
+import { query } from '../utils/database';
+import { AlertDelivery, AlertDeliveryStatus, AlertEvent } from '../types';
+
+export class AlertDeliveryModel {
+  /**
+   * Record a pending webhook delivery, picked up by the delivery worker once delayMs has passed
+   */
+  static async create(
+    alertRuleId: number,
+    event: AlertEvent,
+    postIds: number[],
+    payload: Record<string, any>,
+    delayMs: number = 0
+  ): Promise<AlertDelivery> {
+    const result = await query(
+      `INSERT INTO alert_deliveries (alert_rule_id, event, post_ids, payload, next_attempt_at)
+       VALUES ($1, $2, $3, $4, NOW() + $5 * INTERVAL '1 millisecond')
+       RETURNING *`,
+      [alertRuleId, event, postIds, JSON.stringify(payload), delayMs]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Claim the next due delivery with the webhook of its rule. The claim lasts leaseMs, after which
+   * another worker may take the delivery over if this one died mid-attempt.
+   */
+  static async claimDue(
+    leaseMs: number
+  ): Promise<{ delivery: AlertDelivery; webhookUrl: string; webhookSecret: string } | null> {
+    const result = await query(
+      `UPDATE alert_deliveries d
+       SET next_attempt_at = NOW() + $1 * INTERVAL '1 millisecond'
+       FROM alert_rules r
+       WHERE d.id = (
+         SELECT id FROM alert_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= NOW()
+         ORDER BY next_attempt_at ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+         AND r.id = d.alert_rule_id
+       RETURNING d.*, r.webhook_url, r.webhook_secret`,
+      [leaseMs]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const { webhook_url, webhook_secret, ...delivery } = result.rows[0];
+    return { delivery, webhookUrl: webhook_url, webhookSecret: webhook_secret };
+  }
+
+  /**
+   * Schedule the next attempt of a delivery after a failed one
+   */
+  static async retryLater(
+    id: number,
+    attempts: number,
+    delayMs: number,
+    responseStatus: number | null,
+    error: string | null
+  ): Promise<AlertDelivery> {
+    const result = await query(
+      `UPDATE alert_deliveries
+       SET attempts = $2, next_attempt_at = NOW() + $3 * INTERVAL '1 millisecond',
+           response_status = $4, error = $5
+       WHERE id = $1
+       RETURNING *`,
+      [id, attempts, delayMs, responseStatus, error]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Record the outcome of a delivery once attempts are over
+   */
+  static async finish(
+    id: number,
+    status: Exclude<AlertDeliveryStatus, 'pending'>,
+    attempts: number,
+    responseStatus: number | null,
+    error: string | null
+  ): Promise<AlertDelivery> {
+    const result = await query(
+      `UPDATE alert_deliveries
+       SET status = $2, attempts = $3, response_status = $4, error = $5, next_attempt_at = NULL,
+           delivered_at = CASE WHEN $2 = 'success' THEN NOW() ELSE NULL END
+       WHERE id = $1
+       RETURNING *`,
+      [id, status, attempts, responseStatus, error]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get the deliveries of a rule, most recent first
+   */
+  static async findByRule(alertRuleId: number, limit: number = 50): Promise<AlertDelivery[]> {
+    const result = await query(
+      `SELECT * FROM alert_deliveries
+       WHERE alert_rule_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [alertRuleId, limit]
+    );
+
+    return result.rows;
+  }
+}
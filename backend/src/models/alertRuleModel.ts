@@ -0,0 +1,127 @@
+import { query } from '../utils/database';
+import { AlertRule } from '../types';
+
+export class AlertRuleModel {
+  /**
+   * Create a new alert rule, user_id is null when authentication is disabled
+   */
+  static async create(rule: Omit<AlertRule, 'id'>): Promise<AlertRule> {
+    const result = await query(
+      `INSERT INTO alert_rules (
+        user_id, name, query, subreddits, min_score, cooldown_seconds,
+        webhook_url, webhook_secret, enabled
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        rule.user_id ?? null,
+        rule.name,
+        rule.query,
+        rule.subreddits || null,
+        rule.min_score,
+        rule.cooldown_seconds,
+        rule.webhook_url,
+        rule.webhook_secret,
+        rule.enabled,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get all alert rules of a user
+   */
+  static async findAll(userId: number | null): Promise<AlertRule[]> {
+    const result = await query(
+      'SELECT * FROM alert_rules WHERE user_id IS NOT DISTINCT FROM $1 ORDER BY id ASC',
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get alert rule by ID, only if owned by the user
+   */
+  static async findById(id: number, userId: number | null): Promise<AlertRule | null> {
+    const result = await query(
+      'SELECT * FROM alert_rules WHERE id = $1 AND user_id IS NOT DISTINCT FROM $2',
+      [id, userId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Get enabled rules that are not cooling down
+   */
+  static async findActive(): Promise<AlertRule[]> {
+    const result = await query(
+      `SELECT * FROM alert_rules
+       WHERE enabled = TRUE
+         AND (last_triggered_at IS NULL OR last_triggered_at <= NOW() - cooldown_seconds * INTERVAL '1 second')
+       ORDER BY id ASC`
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Update alert rule fields
+   */
+  static async update(id: number, data: Partial<AlertRule>): Promise<AlertRule | null> {
+    const columns: (keyof AlertRule)[] = [
+      'name', 'query', 'subreddits', 'min_score', 'cooldown_seconds',
+      'webhook_url', 'webhook_secret', 'enabled',
+    ];
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    columns.forEach(column => {
+      if (data[column] !== undefined) {
+        updates.push(`${column} = $${paramCount++}`);
+        values.push(data[column]);
+      }
+    });
+
+    if (updates.length === 0) {
+      const result = await query('SELECT * FROM alert_rules WHERE id = $1', [id]);
+      return result.rows.length > 0 ? result.rows[0] : null;
+    }
+
+    values.push(id);
+    const result = await query(
+      `UPDATE alert_rules SET ${updates.join(', ')} WHERE id = $${paramCount} RETURNING *`,
+      values
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Start the cooldown of a rule. Returns false if another sync triggered it first.
+   */
+  static async markTriggered(id: number): Promise<boolean> {
+    const result = await query(
+      `UPDATE alert_rules SET last_triggered_at = NOW()
+       WHERE id = $1
+         AND (last_triggered_at IS NULL OR last_triggered_at <= NOW() - cooldown_seconds * INTERVAL '1 second')`,
+      [id]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Delete an alert rule owned by the user
+   */
+  static async delete(id: number, userId: number | null): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM alert_rules WHERE id = $1 AND user_id IS NOT DISTINCT FROM $2',
+      [id, userId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+}
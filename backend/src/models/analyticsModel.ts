@@ -0,0 +1,166 @@
+import { query } from '../utils/database';
+import {
+  AnalyticsFilters,
+  AuthorActivity,
+  DailyPostCount,
+  EngagementStats,
+  PostingHourCell,
+  ScoreDistribution,
+} from '../types';
+
+// Aggregates are cast in SQL: COUNT/SUM return bigint/numeric, which pg hands back as strings
+
+export class AnalyticsModel {
+  /**
+   * Posts per day and subreddit
+   */
+  static async postsPerDay(filters: AnalyticsFilters): Promise<DailyPostCount[]> {
+    const { sql, params } = this.buildFilters(filters);
+
+    const result = await query(
+      `SELECT
+        to_char(date_trunc('day', p.created_utc), 'YYYY-MM-DD') as day,
+        s.name as subreddit,
+        COUNT(*)::int as posts
+      FROM posts p
+      JOIN subreddits s ON p.subreddit_id = s.id
+      WHERE 1=1 ${sql}
+      GROUP BY 1, 2
+      ORDER BY 1 ASC, 2 ASC`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Mean, median and percentile scores per subreddit
+   */
+  static async scoreDistribution(filters: AnalyticsFilters): Promise<ScoreDistribution[]> {
+    const { sql, params } = this.buildFilters(filters);
+
+    const result = await query(
+      `SELECT
+        s.name as subreddit,
+        COUNT(*)::int as posts,
+        AVG(p.score)::float8 as mean,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY p.score)::float8 as median,
+        percentile_cont(0.25) WITHIN GROUP (ORDER BY p.score)::float8 as p25,
+        percentile_cont(0.75) WITHIN GROUP (ORDER BY p.score)::float8 as p75,
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY p.score)::float8 as p90,
+        percentile_cont(0.99) WITHIN GROUP (ORDER BY p.score)::float8 as p99
+      FROM posts p
+      JOIN subreddits s ON p.subreddit_id = s.id
+      WHERE 1=1 ${sql}
+      GROUP BY s.name
+      ORDER BY posts DESC, subreddit ASC`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Comment-to-score ratio per subreddit
+   */
+  static async engagement(filters: AnalyticsFilters): Promise<EngagementStats[]> {
+    const { sql, params } = this.buildFilters(filters);
+
+    const result = await query(
+      `SELECT
+        s.name as subreddit,
+        COUNT(*)::int as posts,
+        COALESCE(SUM(p.score), 0)::float8 as total_score,
+        COALESCE(SUM(p.comment_count), 0)::float8 as total_comments,
+        AVG(p.comment_count)::float8 as avg_comments,
+        (SUM(p.comment_count)::float8 / NULLIF(SUM(p.score), 0))::float8 as comment_score_ratio
+      FROM posts p
+      JOIN subreddits s ON p.subreddit_id = s.id
+      WHERE 1=1 ${sql}
+      GROUP BY s.name
+      ORDER BY posts DESC, subreddit ASC`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Authors with the most posts
+   */
+  static async topAuthors(filters: AnalyticsFilters, limit: number = 20): Promise<AuthorActivity[]> {
+    const { sql, params, nextParam } = this.buildFilters(filters);
+
+    const result = await query(
+      `SELECT
+        a.username as author,
+        COUNT(*)::int as posts,
+        COUNT(DISTINCT p.subreddit_id)::int as subreddits,
+        COALESCE(SUM(p.score), 0)::float8 as total_score,
+        AVG(p.score)::float8 as avg_score,
+        COALESCE(SUM(p.comment_count), 0)::float8 as total_comments
+      FROM posts p
+      JOIN authors a ON p.author_id = a.id
+      JOIN subreddits s ON p.subreddit_id = s.id
+      WHERE a.username <> '[deleted]' ${sql}
+      GROUP BY a.username
+      ORDER BY posts DESC, total_score DESC
+      LIMIT $${nextParam}`,
+      [...params, limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Posts and average score by UTC day of week and hour of posting
+   */
+  static async postingHours(filters: AnalyticsFilters): Promise<PostingHourCell[]> {
+    const { sql, params } = this.buildFilters(filters);
+
+    const result = await query(
+      `SELECT
+        EXTRACT(DOW FROM p.created_utc)::int as day_of_week,
+        EXTRACT(HOUR FROM p.created_utc)::int as hour,
+        COUNT(*)::int as posts,
+        AVG(p.score)::float8 as avg_score
+      FROM posts p
+      JOIN subreddits s ON p.subreddit_id = s.id
+      WHERE 1=1 ${sql}
+      GROUP BY 1, 2
+      ORDER BY 1 ASC, 2 ASC`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Subreddit and date range conditions, expects `p` (posts) and `s` (subreddits) aliases
+   */
+  private static buildFilters(filters: AnalyticsFilters): { sql: string; params: any[]; nextParam: number } {
+    const params: any[] = [];
+    let paramCount = 1;
+    let sql = '';
+
+    if (filters.subreddits && filters.subreddits.length > 0) {
+      sql += ` AND s.name = ANY($${paramCount})`;
+      params.push(filters.subreddits);
+      paramCount++;
+    }
+
+    if (filters.dateRange?.start) {
+      sql += ` AND p.created_utc >= $${paramCount}`;
+      params.push(filters.dateRange.start);
+      paramCount++;
+    }
+
+    if (filters.dateRange?.end) {
+      sql += ` AND p.created_utc <= $${paramCount}`;
+      params.push(filters.dateRange.end);
+      paramCount++;
+    }
+
+    return { sql, params, nextParam: paramCount };
+  }
+}
@@ -0,0 +1,81 @@
+import { query } from '../utils/database';
+import { ApiKey, User } from '../types';
+
+export class ApiKeyModel {
+  /**
+   * Store a new API key from its hash
+   */
+  static async create(userId: number, name: string, keyPrefix: string, keyHash: string): Promise<ApiKey> {
+    const result = await query(
+      `INSERT INTO api_keys (user_id, name, key_prefix, key_hash)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, user_id, name, key_prefix, last_used_at, revoked_at, created_at`,
+      [userId, name, keyPrefix, keyHash]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find the owner of an active key and record its use
+   */
+  static async findUserByHash(keyHash: string): Promise<{ apiKeyId: number; user: User } | null> {
+    const result = await query(
+      `WITH used AS (
+        UPDATE api_keys SET last_used_at = NOW()
+        WHERE key_hash = $1 AND revoked_at IS NULL
+        RETURNING id, user_id
+      )
+      SELECT used.id as api_key_id, u.*
+      FROM used
+      JOIN users u ON u.id = used.user_id`,
+      [keyHash]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const { api_key_id, ...user } = result.rows[0];
+    return { apiKeyId: api_key_id, user };
+  }
+
+  /**
+   * Get the keys of a user, most recent first
+   */
+  static async findByUser(userId: number): Promise<ApiKey[]> {
+    const result = await query(
+      `SELECT id, user_id, name, key_prefix, last_used_at, revoked_at, created_at
+       FROM api_keys
+       WHERE user_id = $1
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get the keys of every user
+   */
+  static async findAll(): Promise<ApiKey[]> {
+    const result = await query(
+      `SELECT id, user_id, name, key_prefix, last_used_at, revoked_at, created_at
+       FROM api_keys
+       ORDER BY user_id ASC, created_at DESC`
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Revoke a key of a user
+   */
+  static async revoke(id: number, userId: number): Promise<boolean> {
+    const result = await query(
+      `UPDATE api_keys SET revoked_at = NOW()
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+      [id, userId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -5,7 +5,8 @@ import { Author } from '../types';
 
 export class AuthorModel {
   /**
-   * Find or create an author
+   * Find or create an author. Existing karma is left untouched, it is only
+   * refreshed by profile enrichment.
    */
   static async findOrCreate(
     username: string,
@@ -18,13 +19,6 @@ export class AuthorModel {
     );
 
     if (existingResult.rows.length > 0) {
-      // Update karma if it has changed
-      await query(
-        `UPDATE authors
-         SET link_karma = $1, comment_karma = $2
-         WHERE username = $3`,
-        [linkKarma, commentKarma, username]
-      );
       return existingResult.rows[0].id;
     }
 
@@ -38,6 +32,54 @@ export class AuthorModel {
     return insertResult.rows[0].id;
   }
 
+  /**
+   * Get the usernames whose profile was never fetched or is older than the TTL
+   */
+  static async findStale(usernames: string[], ttlHours: number): Promise<string[]> {
+    if (usernames.length === 0) return [];
+
+    const result = await query(
+      `SELECT username FROM authors
+       WHERE username = ANY($1)
+       AND (profile_fetched_at IS NULL OR profile_fetched_at < NOW() - make_interval(hours => $2))
+       ORDER BY profile_fetched_at ASC NULLS FIRST`,
+      [usernames, ttlHours]
+    );
+
+    return result.rows.map(row => row.username);
+  }
+
+  /**
+   * Store a fetched profile
+   */
+  static async updateProfile(
+    username: string,
+    profile: {
+      linkKarma?: number;
+      commentKarma?: number;
+      accountCreatedUtc?: Date | null;
+      status: 'active' | 'suspended' | 'not_found';
+    }
+  ): Promise<void> {
+    // Suspended and missing accounts keep their last known karma
+    await query(
+      `UPDATE authors
+       SET link_karma = COALESCE($2, link_karma),
+           comment_karma = COALESCE($3, comment_karma),
+           account_created_utc = COALESCE($4, account_created_utc),
+           profile_status = $5,
+           profile_fetched_at = NOW()
+       WHERE username = $1`,
+      [
+        username,
+        profile.linkKarma ?? null,
+        profile.commentKarma ?? null,
+        profile.accountCreatedUtc || null,
+        profile.status,
+      ]
+    );
+  }
+
   /**
    * Get author by username
    */
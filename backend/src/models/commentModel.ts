@@ -0,0 +1,48 @@
+import { query } from '../utils/database';
+import { Comment } from '../types';
+
+export class CommentModel {
+  /**
+   * Create or update a comment
+   */
+  static async create(comment: Omit<Comment, 'id'>): Promise<number> {
+    const result = await query(
+      `INSERT INTO comments (
+        reddit_id, post_id, author_id, parent_reddit_id, depth,
+        content, score, created_utc
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (reddit_id) DO UPDATE SET
+        content = EXCLUDED.content,
+        score = EXCLUDED.score
+      RETURNING id`,
+      [
+        comment.reddit_id,
+        comment.post_id,
+        comment.author_id || null,
+        comment.parent_reddit_id || null,
+        comment.depth,
+        comment.content,
+        comment.score,
+        comment.created_utc,
+      ]
+    );
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * Get all comments of a post, ordered so threads can be rebuilt from parent_reddit_id
+   */
+  static async findByPost(postId: number): Promise<Comment[]> {
+    const result = await query(
+      `SELECT c.*, a.username as author_username
+       FROM comments c
+       LEFT JOIN authors a ON c.author_id = a.id
+       WHERE c.post_id = $1
+       ORDER BY c.depth ASC, c.created_utc ASC`,
+      [postId]
+    );
+
+    return result.rows;
+  }
+}
@@ -1,22 +1,62 @@
-import { query } from '../utils/database';
-import { Post, SearchQuery, SearchResult } from '../types';
+import pool, { query } from '../utils/database';
+import { Post, PostStats, SearchFacet, SearchFacets, SearchPage, SearchQuery, SearchSort, SearchResult, SearchTotalMode, TrendingQuery, TrendingResult } from '../types';
+import { compileQuery, extractRankingTerms, parseQuery } from '../utils/queryParser';
+import { SortColumn, decodeCursor, encodeCursor, keysetCondition, orderBy } from '../utils/cursor';
 
 export class PostModel {
+  // Weight of title and content matches in the relevance score
+  private static readonly TITLE_WEIGHT = 1.0;
+  private static readonly CONTENT_WEIGHT = 0.4;
+
+  // Sort keys of search results, hot and controversial are indexed through their SQL functions
+  private static readonly SEARCH_SORTS: Record<SearchSort, SortColumn> = {
+    relevance: { expr: 'results.relevance', field: 'relevance', direction: 'DESC' },
+    score: { expr: 'results.score', field: 'score', direction: 'DESC' },
+    comments: { expr: 'results.comment_count', field: 'comment_count', direction: 'DESC' },
+    newest: { expr: 'results.created_utc', field: 'created_utc', direction: 'DESC' },
+    oldest: { expr: 'results.created_utc', field: 'created_utc', direction: 'ASC' },
+    controversial: { expr: 'results.controversy', field: 'controversy', direction: 'DESC' },
+    hot: { expr: 'results.hot_score', field: 'hot_score', direction: 'DESC' },
+  };
+  // Lower bound and label of each score facet band
+  private static readonly SCORE_BANDS: { min: number; label: string }[] = [
+    { min: 1000, label: '1000+' },
+    { min: 500, label: '500-999' },
+    { min: 100, label: '100-499' },
+    { min: 50, label: '50-99' },
+    { min: 10, label: '10-49' },
+    { min: 0, label: '0-9' },
+  ];
+
+  // Sort keys used for keyset pagination, id makes every key unique
+  private static readonly RECENT_SORT: SortColumn[] = [
+    { expr: 'p.created_utc', field: 'created_utc', direction: 'DESC' },
+    { expr: 'p.id', field: 'id', direction: 'DESC' },
+  ];
+
   /**
-   * Create a new post
+   * Create a new post, or refresh its counters if it already exists.
+   * Also records a snapshot of the counters in post_snapshots unless `snapshot` is false,
+   * e.g. when the counters come from a cached listing and were already recorded.
    */
-  static async create(post: Omit<Post, 'id'>): Promise<number> {
+  static async create(post: Omit<Post, 'id'>, snapshot: boolean = true): Promise<{ id: number; inserted: boolean }> {
     const result = await query(
-      `INSERT INTO posts (
-        reddit_id, title, content, subreddit_id, author_id,
-        score, upvotes, downvotes, comment_count, created_utc, url
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-      ON CONFLICT (reddit_id) DO UPDATE SET
-        score = EXCLUDED.score,
-        upvotes = EXCLUDED.upvotes,
-        downvotes = EXCLUDED.downvotes,
-        comment_count = EXCLUDED.comment_count
-      RETURNING id`,
+      `WITH upserted AS (
+        INSERT INTO posts (
+          reddit_id, title, content, subreddit_id, author_id,
+          score, upvotes, downvotes, comment_count, created_utc, url
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        ON CONFLICT (reddit_id) DO UPDATE SET
+          score = EXCLUDED.score,
+          upvotes = EXCLUDED.upvotes,
+          downvotes = EXCLUDED.downvotes,
+          comment_count = EXCLUDED.comment_count
+        RETURNING id, score, upvotes, downvotes, comment_count, (xmax = 0) AS inserted
+      ), snapshot AS (
+        INSERT INTO post_snapshots (post_id, score, upvotes, downvotes, comment_count)
+        SELECT id, score, upvotes, downvotes, comment_count FROM upserted WHERE $12::boolean
+      )
+      SELECT id, inserted FROM upserted`,
       [
         post.reddit_id,
         post.title,
@@ -29,40 +69,254 @@ export class PostModel {
         post.comment_count,
         post.created_utc,
         post.url,
+        snapshot,
       ]
     );
 
-    return result.rows[0].id;
+    return {
+      id: result.rows[0].id,
+      inserted: result.rows[0].inserted,
+    };
+  }
+
+  /**
+   * Advanced search with filters.
+   * Results are ranked at query time: each keyword contributes its ts_rank_cd on
+   * title and content, multiplied by the keyword IDF from term_idf, and title
+   * matches weigh more than content matches.
+   * Pages are read after `searchQuery.cursor` when given, `offset` otherwise.
+   * Throws QuerySyntaxError when `searchQuery.query` cannot be parsed and
+   * InvalidCursorError when the cursor is malformed.
+   */
+  static async search(searchQuery: SearchQuery): Promise<SearchPage> {
+    const { sql, params } = await this.buildSearch(searchQuery);
+    const limit = searchQuery.limit || 50;
+    const sort = this.searchSort(searchQuery);
+
+    return this.paginate(
+      `SELECT * FROM (${sql}) results`,
+      params,
+      sort.name,
+      sort.columns,
+      limit,
+      searchQuery.cursor,
+      searchQuery.offset
+    );
   }
 
   /**
-   * Advanced search with filters
+   * Count the rows matching a search. `estimated` reads the planner row estimate,
+   * which is instant but can be far off for selective full-text queries.
    */
-  static async search(searchQuery: SearchQuery): Promise<SearchResult[]> {
+  static async countSearch(searchQuery: SearchQuery, mode: SearchTotalMode): Promise<number> {
+    const { sql, params } = await this.buildSearch(searchQuery);
+
+    if (mode === 'estimated') {
+      const result = await query(`EXPLAIN (FORMAT JSON) ${sql}`, params);
+      return Math.round(result.rows[0]['QUERY PLAN'][0].Plan['Plan Rows']);
+    }
+
+    const result = await query(`SELECT COUNT(*)::int as total FROM (${sql}) results`, params);
+    return result.rows[0].total;
+  }
+
+  /**
+   * Aggregate the posts matching a search filters into facets, `size` caps the subreddit and author lists
+   */
+  static async getFacets(searchQuery: SearchQuery, facets: SearchFacet[], size: number = 10): Promise<SearchFacets> {
+    if (facets.length === 0) return {};
+
+    const filters = this.buildSearchFilters(searchQuery, 1);
+    const sizeParam = `$${filters.nextParam}`;
+    const bandCases = this.SCORE_BANDS
+      .map(band => `WHEN score >= ${band.min} THEN '${band.label}'`)
+      .join(' ');
+
+    const aggregations: Record<SearchFacet, string> = {
+      subreddit: `SELECT subreddit_name as value, COUNT(*)::int as count
+        FROM matched WHERE subreddit_name IS NOT NULL
+        GROUP BY subreddit_name ORDER BY count DESC, value ASC LIMIT ${sizeParam}`,
+      author: `SELECT author_username as value, COUNT(*)::int as count
+        FROM matched WHERE author_username IS NOT NULL
+        GROUP BY author_username ORDER BY count DESC, value ASC LIMIT ${sizeParam}`,
+      day: `SELECT to_char(date_trunc('day', created_utc), 'YYYY-MM-DD') as value, COUNT(*)::int as count
+        FROM matched GROUP BY 1 ORDER BY 1 ASC`,
+      week: `SELECT to_char(date_trunc('week', created_utc), 'YYYY-MM-DD') as value, COUNT(*)::int as count
+        FROM matched GROUP BY 1 ORDER BY 1 ASC`,
+      score: `SELECT CASE ${bandCases} ELSE '<0' END as value, COUNT(*)::int as count
+        FROM matched GROUP BY 1 ORDER BY MIN(score) DESC`,
+    };
+
+    const columns = facets.map(facet =>
+      `(SELECT COALESCE(json_agg(buckets), '[]') FROM (${aggregations[facet]}) buckets) as ${facet}`
+    );
+
+    const result = await query(
+      `WITH matched AS (
+        SELECT p.score, p.created_utc, s.name as subreddit_name, a.username as author_username
+        FROM posts p
+        LEFT JOIN authors a ON p.author_id = a.id
+        LEFT JOIN subreddits s ON p.subreddit_id = s.id
+        WHERE 1=1 ${filters.sql}
+      )
+      SELECT ${columns.join(',\n        ')}`,
+      // Postgres rejects a parameter no facet references
+      facets.includes('subreddit') || facets.includes('author') ? [...filters.params, size] : filters.params
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Stream every row matching a search, ignoring limit and offset.
+   * Rows are read through a server-side cursor, batchSize at a time.
+   */
+  static async *streamSearch(searchQuery: SearchQuery, batchSize: number = 500): AsyncGenerator<SearchResult[]> {
+    const { sql, params } = await this.buildSearch(searchQuery);
+
+    // Not getClient: a long export would trip its checkout warning
+    const client = await pool.connect();
+    let committed = false;
+
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `DECLARE search_export NO SCROLL CURSOR FOR
+         SELECT * FROM (${sql}) results ORDER BY ${orderBy(this.searchSort(searchQuery).columns)}`,
+        params
+      );
+
+      while (true) {
+        const result = await client.query(`FETCH ${batchSize} FROM search_export`);
+        if (result.rows.length === 0) break;
+        yield result.rows;
+      }
+
+      await client.query('COMMIT');
+      committed = true;
+    } finally {
+      // Also runs when the consumer stops early, e.g. the HTTP client disconnected
+      if (!committed) {
+        await client.query('ROLLBACK').catch(() => undefined);
+      }
+      client.release();
+    }
+  }
+
+  /**
+   * Sort keys of a search: the sort, its tiebreaker, then id in the direction of the sort.
+   * Relevance is broken by score unless another tiebreaker is given.
+   */
+  private static searchSort(searchQuery: SearchQuery): { name: string; columns: SortColumn[] } {
+    const sort = searchQuery.sort || 'relevance';
+    const tiebreaker = searchQuery.tiebreaker || (sort === 'relevance' ? 'score' : undefined);
+    const primary = this.SEARCH_SORTS[sort];
+
+    const columns = [primary];
+    if (tiebreaker && this.SEARCH_SORTS[tiebreaker].field !== primary.field) {
+      columns.push(this.SEARCH_SORTS[tiebreaker]);
+    }
+    columns.push({ expr: 'results.id', field: 'id', direction: primary.direction });
+
+    return {
+      name: tiebreaker ? `${sort},${tiebreaker}` : sort,
+      columns,
+    };
+  }
+
+  /**
+   * Build the ranked search SQL, unordered and without pagination
+   */
+  private static async buildSearch(searchQuery: SearchQuery): Promise<{ sql: string; params: any[] }> {
+    const params: any[] = [];
+    let paramCount = 1;
+
+    const parsedQuery = searchQuery.query ? parseQuery(searchQuery.query) : null;
+    const keywords = [
+      ...new Set([
+        ...(searchQuery.keywords || []),
+        ...(parsedQuery ? extractRankingTerms(parsedQuery) : []),
+      ]),
+    ];
+    const termIdf = await this.getTermIdf(keywords);
+    const titleRanks: string[] = [];
+    const contentRanks: string[] = [];
+
+    keywords.forEach(keyword => {
+      titleRanks.push(
+        `$${paramCount + 1}::float8 * ts_rank_cd(to_tsvector('english', p.title), plainto_tsquery('english', $${paramCount}), 32)`
+      );
+      contentRanks.push(
+        `$${paramCount + 1}::float8 * ts_rank_cd(to_tsvector('english', COALESCE(p.content, '')), plainto_tsquery('english', $${paramCount}), 32)`
+      );
+      params.push(keyword, termIdf[keyword] ?? 1);
+      paramCount += 2;
+    });
+
     let sql = `
       SELECT
         p.*,
         a.username as author_username,
         (a.link_karma + a.comment_karma) as author_karma,
-        s.name as subreddit_name
+        s.name as subreddit_name,
+        (${titleRanks.join(' + ') || '0'})::float8 as title_rank,
+        (${contentRanks.join(' + ') || '0'})::float8 as content_rank,
+        hot_score(p.score, p.created_utc) as hot_score,
+        controversy(p.upvotes, p.downvotes) as controversy
       FROM posts p
       LEFT JOIN authors a ON p.author_id = a.id
       LEFT JOIN subreddits s ON p.subreddit_id = s.id
       WHERE 1=1
     `;
 
+    const filters = this.buildSearchFilters(searchQuery, paramCount);
+    sql += filters.sql;
+    params.push(...filters.params);
+
+    // Relevance combines title and content ranks
+    sql = `
+      SELECT
+        ranked.*,
+        (ranked.title_rank * ${this.TITLE_WEIGHT} + ranked.content_rank * ${this.CONTENT_WEIGHT}) as relevance
+      FROM (${sql}) ranked
+    `;
+
+    return { sql, params };
+  }
+
+  /**
+   * Build the WHERE conditions of a search, shared by the result rows and the facets.
+   * Conditions expect `p` (posts), `a` (authors) and `s` (subreddits) aliases.
+   */
+  private static buildSearchFilters(
+    searchQuery: SearchQuery,
+    startParam: number
+  ): { sql: string; params: any[]; nextParam: number } {
     const params: any[] = [];
-    let paramCount = 1;
+    let paramCount = startParam;
+    let sql = '';
+
+    const parsedQuery = searchQuery.query ? parseQuery(searchQuery.query) : null;
 
-    // Keyword search using full-text search
+    // Keyword search using full-text search, any keyword may match
     if (searchQuery.keywords && searchQuery.keywords.length > 0) {
-      const searchTerms = searchQuery.keywords.join(' | ');
+      const searchTerms = searchQuery.keywords
+        .map((_, index) => `plainto_tsquery('english', $${paramCount + index})`)
+        .join(' || ');
       sql += ` AND (
-        to_tsvector('english', p.title) @@ to_tsquery('english', $${paramCount})
-        OR to_tsvector('english', COALESCE(p.content, '')) @@ to_tsquery('english', $${paramCount})
+        to_tsvector('english', p.title) @@ (${searchTerms})
+        OR to_tsvector('english', COALESCE(p.content, '')) @@ (${searchTerms})
       )`;
-      params.push(searchTerms);
-      paramCount++;
+      params.push(...searchQuery.keywords);
+      paramCount += searchQuery.keywords.length;
+    }
+
+    // Boolean query language (phrases, AND/OR/NOT, fields, prefixes)
+    if (parsedQuery) {
+      const compiled = compileQuery(parsedQuery, paramCount);
+      sql += ` AND ${compiled.sql}`;
+      params.push(...compiled.params);
+      paramCount = compiled.nextParam;
     }
 
     // Required keywords (must all be present)
@@ -76,6 +330,19 @@ export class PostModel {
       });
     }
 
+    // Excluded keywords (none may match)
+    if (searchQuery.excludedKeywords && searchQuery.excludedKeywords.length > 0) {
+      const excludedTerms = searchQuery.excludedKeywords
+        .map((_, index) => `plainto_tsquery('english', $${paramCount + index})`)
+        .join(' || ');
+      sql += ` AND NOT (
+        to_tsvector('english', p.title) @@ (${excludedTerms})
+        OR to_tsvector('english', COALESCE(p.content, '')) @@ (${excludedTerms})
+      )`;
+      params.push(...searchQuery.excludedKeywords);
+      paramCount += searchQuery.excludedKeywords.length;
+    }
+
     // Subreddit filter
     if (searchQuery.subreddits && searchQuery.subreddits.length > 0) {
       sql += ` AND s.name = ANY($${paramCount})`;
@@ -83,6 +350,30 @@ export class PostModel {
       paramCount++;
     }
 
+    // Excluded subreddits
+    if (searchQuery.excludedSubreddits && searchQuery.excludedSubreddits.length > 0) {
+      sql += ` AND LOWER(s.name) <> ALL($${paramCount})`;
+      params.push(searchQuery.excludedSubreddits.map(name => name.toLowerCase()));
+      paramCount++;
+    }
+
+    // Excluded authors
+    if (searchQuery.excludedAuthors && searchQuery.excludedAuthors.length > 0) {
+      sql += ` AND (a.username IS NULL OR LOWER(a.username) <> ALL($${paramCount}))`;
+      params.push(searchQuery.excludedAuthors.map(name => name.toLowerCase()));
+      paramCount++;
+    }
+
+    // Drop posts whose body was deleted or removed
+    if (searchQuery.excludeRemoved) {
+      sql += ` AND COALESCE(p.content, '') NOT IN ('[deleted]', '[removed]')`;
+    }
+
+    // Drop AutoModerator posts
+    if (searchQuery.excludeAutoModerator) {
+      sql += ` AND (a.username IS NULL OR a.username <> 'AutoModerator')`;
+    }
+
     // Minimum upvotes filter
     if (searchQuery.minUpvotes !== undefined) {
       sql += ` AND p.score >= $${paramCount}`;
@@ -111,47 +402,78 @@ export class PostModel {
       }
     }
 
-    // Order by relevance score, then by post score
-    sql += ` ORDER BY p.relevance_score DESC, p.score DESC`;
+    // Restrict to given posts
+    if (searchQuery.postIds) {
+      sql += ` AND p.id = ANY($${paramCount})`;
+      params.push(searchQuery.postIds);
+      paramCount++;
+    }
 
-    // Pagination
-    const limit = searchQuery.limit || 50;
-    const offset = searchQuery.offset || 0;
-    sql += ` LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
-    params.push(limit, offset);
+    // Only posts a saved search has not returned before
+    if (searchQuery.unseenBySavedSearch !== undefined) {
+      sql += ` AND NOT EXISTS (
+        SELECT 1 FROM saved_search_matches m
+        WHERE m.saved_search_id = $${paramCount} AND m.post_id = p.id
+      )`;
+      params.push(searchQuery.unseenBySavedSearch);
+      paramCount++;
+    }
 
-    const result = await query(sql, params);
-    return result.rows;
+    return { sql, params, nextParam: paramCount };
   }
 
   /**
-   * Calculate and update relevance score for posts
+   * Get the IDF of each keyword from the term_idf corpus statistics.
+   * Multi-word keywords get the average IDF of their lexemes, unknown terms get 1.
    */
-  static async updateRelevanceScore(postId: number, keywords: string[]): Promise<void> {
-    const postResult = await query(
-      'SELECT title, content FROM posts WHERE id = $1',
-      [postId]
+  static async getTermIdf(keywords: string[]): Promise<Record<string, number>> {
+    if (keywords.length === 0) return {};
+
+    const result = await query(
+      `SELECT kw.keyword, COALESCE(AVG(t.idf), 1)::float8 as idf
+       FROM unnest($1::text[]) AS kw(keyword)
+       LEFT JOIN LATERAL unnest(tsvector_to_array(to_tsvector('english', kw.keyword))) AS lexeme(word) ON TRUE
+       LEFT JOIN term_idf t ON t.word = lexeme.word
+       GROUP BY kw.keyword`,
+      [keywords]
     );
 
-    if (postResult.rows.length === 0) return;
+    const termIdf: Record<string, number> = {};
+    result.rows.forEach(row => {
+      termIdf[row.keyword] = row.idf;
+    });
 
-    const post = postResult.rows[0];
-    const text = (post.title + ' ' + (post.content || '')).toLowerCase();
+    return termIdf;
+  }
 
-    let score = 0;
-    keywords.forEach(keyword => {
-      const regex = new RegExp(keyword.toLowerCase(), 'g');
-      const titleMatches = (post.title.toLowerCase().match(regex) || []).length;
-      const contentMatches = ((post.content || '').toLowerCase().match(regex) || []).length;
+  /**
+   * Whether term_idf has no rows while posts exist, e.g. on a fresh install before its first refresh
+   */
+  static async isTermIdfEmpty(): Promise<boolean> {
+    const result = await query(
+      'SELECT NOT EXISTS (SELECT 1 FROM term_idf) AND EXISTS (SELECT 1 FROM posts) as empty'
+    );
 
-      // Title matches are weighted more heavily
-      score += titleMatches * 10 + contentMatches * 5;
-    });
+    return result.rows[0].empty;
+  }
+
+  /**
+   * Recompute corpus-level term statistics used for IDF weighting
+   */
+  static async refreshTermIdf(): Promise<void> {
+    await query('REFRESH MATERIALIZED VIEW CONCURRENTLY term_idf');
+  }
 
-    await query(
-      'UPDATE posts SET relevance_score = $1 WHERE id = $2',
-      [score, postId]
+  /**
+   * Get post by Reddit ID
+   */
+  static async findByRedditId(redditId: string): Promise<Post | null> {
+    const result = await query(
+      'SELECT * FROM posts WHERE reddit_id = $1',
+      [redditId]
     );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
   }
 
   /**
@@ -170,10 +492,108 @@ export class PostModel {
   }
 
   /**
-   * Get recent posts
+   * Rank posts by how fast their score and comment count grow, from post_snapshots.
+   * Growth is compared to the average growth of the same subreddit over the window
+   * and damped by the post age, so young breakout posts rank first.
    */
-  static async findRecent(limit: number = 50): Promise<SearchResult[]> {
+  static async findTrending(trendingQuery: TrendingQuery): Promise<TrendingResult[]> {
+    const params: any[] = [trendingQuery.windowHours || 24];
+    let paramCount = 2;
+    let filters = '';
+
+    if (trendingQuery.subreddits && trendingQuery.subreddits.length > 0) {
+      filters += ` AND s.name = ANY($${paramCount})`;
+      params.push(trendingQuery.subreddits);
+      paramCount++;
+    }
+
+    if (trendingQuery.dateRange?.start) {
+      filters += ` AND p.created_utc >= $${paramCount}`;
+      params.push(trendingQuery.dateRange.start);
+      paramCount++;
+    }
+
+    if (trendingQuery.dateRange?.end) {
+      filters += ` AND p.created_utc <= $${paramCount}`;
+      params.push(trendingQuery.dateRange.end);
+      paramCount++;
+    }
+
+    params.push(trendingQuery.limit || 50);
+
     const result = await query(
+      `WITH window_snapshots AS (
+        SELECT
+          post_id, score, comment_count, captured_at,
+          ROW_NUMBER() OVER (PARTITION BY post_id ORDER BY captured_at ASC) AS first_rank,
+          ROW_NUMBER() OVER (PARTITION BY post_id ORDER BY captured_at DESC) AS last_rank
+        FROM post_snapshots
+        WHERE captured_at >= NOW() - make_interval(hours => $1)
+      ),
+      growth AS (
+        SELECT
+          post_id,
+          COUNT(*) AS observations,
+          MAX(score) FILTER (WHERE last_rank = 1) - MAX(score) FILTER (WHERE first_rank = 1) AS score_delta,
+          MAX(comment_count) FILTER (WHERE last_rank = 1) - MAX(comment_count) FILTER (WHERE first_rank = 1) AS comment_delta,
+          EXTRACT(EPOCH FROM MAX(captured_at) - MIN(captured_at)) / 3600 AS hours_observed
+        FROM window_snapshots
+        GROUP BY post_id
+        HAVING MAX(captured_at) > MIN(captured_at)
+      ),
+      velocities AS (
+        SELECT
+          p.id AS post_id,
+          p.subreddit_id,
+          g.observations,
+          EXTRACT(EPOCH FROM NOW() - p.created_utc) / 3600 AS age_hours,
+          g.score_delta / g.hours_observed AS score_velocity,
+          g.comment_delta / g.hours_observed AS comment_velocity
+        FROM growth g
+        JOIN posts p ON p.id = g.post_id
+      ),
+      baselines AS (
+        SELECT
+          subreddit_id,
+          AVG(score_velocity) AS baseline_score_velocity,
+          AVG(comment_velocity) AS baseline_comment_velocity
+        FROM velocities
+        GROUP BY subreddit_id
+      )
+      SELECT
+        p.*,
+        a.username as author_username,
+        (a.link_karma + a.comment_karma) as author_karma,
+        s.name as subreddit_name,
+        v.observations::int AS observations,
+        v.age_hours::float8 AS age_hours,
+        v.score_velocity::float8 AS score_velocity,
+        v.comment_velocity::float8 AS comment_velocity,
+        b.baseline_score_velocity::float8 AS baseline_score_velocity,
+        b.baseline_comment_velocity::float8 AS baseline_comment_velocity,
+        ((
+          v.score_velocity / GREATEST(b.baseline_score_velocity, 1)
+          + v.comment_velocity / GREATEST(b.baseline_comment_velocity, 1)
+        ) / POWER(GREATEST(v.age_hours, 0) + 2, 0.5))::float8 AS trending_score
+      FROM velocities v
+      JOIN baselines b ON b.subreddit_id = v.subreddit_id
+      JOIN posts p ON p.id = v.post_id
+      LEFT JOIN authors a ON p.author_id = a.id
+      LEFT JOIN subreddits s ON p.subreddit_id = s.id
+      WHERE (v.score_velocity > 0 OR v.comment_velocity > 0)${filters}
+      ORDER BY trending_score DESC, v.score_velocity DESC
+      LIMIT $${paramCount}`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get recent posts
+   */
+  static async findRecent(limit: number = 50, cursor?: string): Promise<SearchPage> {
+    return this.paginate(
       `SELECT
         p.*,
         a.username as author_username,
@@ -181,27 +601,71 @@ export class PostModel {
         s.name as subreddit_name
       FROM posts p
       LEFT JOIN authors a ON p.author_id = a.id
-      LEFT JOIN subreddits s ON p.subreddit_id = s.id
-      ORDER BY p.created_utc DESC
-      LIMIT $1`,
-      [limit]
+      LEFT JOIN subreddits s ON p.subreddit_id = s.id`,
+      [],
+      'newest',
+      this.RECENT_SORT,
+      limit,
+      cursor
     );
+  }
 
-    return result.rows;
+  /**
+   * Read one page of a query in sort order. One extra row is fetched to know
+   * whether a next page exists, nextCursor points after the last returned row.
+   */
+  private static async paginate(
+    sql: string,
+    params: any[],
+    sortName: string,
+    sort: SortColumn[],
+    limit: number,
+    cursor?: string,
+    offset: number = 0
+  ): Promise<SearchPage> {
+    const pageParams = [...params];
+    let paramCount = params.length + 1;
+
+    if (cursor) {
+      const keyset = keysetCondition(sort, decodeCursor(cursor, sortName, sort), paramCount);
+      sql += ` WHERE ${keyset.sql}`;
+      pageParams.push(...keyset.params);
+      paramCount = keyset.nextParam;
+    }
+
+    sql += ` ORDER BY ${orderBy(sort)} LIMIT $${paramCount}`;
+    pageParams.push(limit + 1);
+    paramCount++;
+
+    // A cursor already positions the page, offset only applies without one
+    if (!cursor && offset > 0) {
+      sql += ` OFFSET $${paramCount}`;
+      pageParams.push(offset);
+    }
+
+    const result = await query(sql, pageParams);
+    const rows: SearchResult[] = result.rows.slice(0, limit);
+
+    return {
+      results: rows,
+      nextCursor: result.rows.length > limit
+        ? encodeCursor(sortName, sort, rows[rows.length - 1])
+        : null,
+    };
   }
 
   /**
    * Get post statistics
    */
-  static async getStats(): Promise<any> {
+  static async getStats(): Promise<PostStats> {
     const result = await query(`
       SELECT
-        COUNT(*) as total_posts,
-        COUNT(DISTINCT subreddit_id) as total_subreddits,
-        COUNT(DISTINCT author_id) as total_authors,
-        AVG(score) as avg_score,
+        COUNT(*)::int as total_posts,
+        COUNT(DISTINCT subreddit_id)::int as total_subreddits,
+        COUNT(DISTINCT author_id)::int as total_authors,
+        AVG(score)::float8 as avg_score,
         MAX(score) as max_score,
-        SUM(comment_count) as total_comments
+        COALESCE(SUM(comment_count), 0)::int as total_comments
       FROM posts
     `);
 
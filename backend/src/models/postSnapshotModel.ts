@@ -0,0 +1,30 @@
+import { query } from '../utils/database';
+import { PostSnapshot } from '../types';
+
+export class PostSnapshotModel {
+  /**
+   * Get the score and comment count history of a post, oldest first
+   */
+  static async findByPost(postId: number, from?: Date, to?: Date): Promise<PostSnapshot[]> {
+    let sql = 'SELECT * FROM post_snapshots WHERE post_id = $1';
+    const params: any[] = [postId];
+    let paramCount = 2;
+
+    if (from) {
+      sql += ` AND captured_at >= $${paramCount}`;
+      params.push(from);
+      paramCount++;
+    }
+
+    if (to) {
+      sql += ` AND captured_at <= $${paramCount}`;
+      params.push(to);
+      paramCount++;
+    }
+
+    sql += ' ORDER BY captured_at ASC';
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+}
@@ -0,0 +1,86 @@
+import { query } from '../utils/database';
+import { SavedSearch } from '../types';
+
+export class SavedSearchModel {
+  /**
+   * Create a saved search owned by a user, null when authentication is disabled
+   */
+  static async create(userId: number | null, name: string, searchQuery: Record<string, any>): Promise<SavedSearch> {
+    const result = await query(
+      `INSERT INTO saved_searches (user_id, name, query)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [userId, name, JSON.stringify(searchQuery)]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get all saved searches of a user
+   */
+  static async findAll(userId: number | null): Promise<SavedSearch[]> {
+    const result = await query(
+      'SELECT * FROM saved_searches WHERE user_id IS NOT DISTINCT FROM $1 ORDER BY id ASC',
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get saved search by ID, only if owned by the user
+   */
+  static async findById(id: number, userId: number | null): Promise<SavedSearch | null> {
+    const result = await query(
+      'SELECT * FROM saved_searches WHERE id = $1 AND user_id IS NOT DISTINCT FROM $2',
+      [id, userId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Update the name and query of a saved search
+   */
+  static async update(id: number, name: string, searchQuery: Record<string, any>): Promise<SavedSearch | null> {
+    const result = await query(
+      `UPDATE saved_searches SET name = $2, query = $3
+       WHERE id = $1
+       RETURNING *`,
+      [id, name, JSON.stringify(searchQuery)]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Record a run: remember the returned posts, stamp last_run_at and store how many posts matched.
+   * Posts not returned stay new for later pages and runs.
+   */
+  static async recordRun(id: number, returnedIds: number[], matchCount: number): Promise<void> {
+    await query(
+      `WITH matched AS (
+        INSERT INTO saved_search_matches (saved_search_id, post_id)
+        SELECT $1, UNNEST($2::int[])
+        ON CONFLICT (saved_search_id, post_id) DO NOTHING
+      )
+      UPDATE saved_searches
+      SET last_run_at = NOW(), last_match_count = $3
+      WHERE id = $1`,
+      [id, returnedIds, matchCount]
+    );
+  }
+
+  /**
+   * Delete a saved search owned by the user, its recorded matches go with it
+   */
+  static async delete(id: number, userId: number | null): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM saved_searches WHERE id = $1 AND user_id IS NOT DISTINCT FROM $2',
+      [id, userId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+}
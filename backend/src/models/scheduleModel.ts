@@ -0,0 +1,128 @@
+import { query } from '../utils/database';
+import { SyncSchedule } from '../types';
+
+export class ScheduleModel {
+  /**
+   * Create a new sync schedule
+   */
+  static async create(schedule: Omit<SyncSchedule, 'id'>): Promise<SyncSchedule> {
+    const result = await query(
+      `INSERT INTO sync_schedules (
+        name, subreddit, search_query, cron_expression, interval_seconds,
+        sort, time_filter, post_limit, enabled, next_run_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *`,
+      [
+        schedule.name,
+        schedule.subreddit || null,
+        schedule.search_query || null,
+        schedule.cron_expression || null,
+        schedule.interval_seconds || null,
+        schedule.sort,
+        schedule.time_filter,
+        schedule.post_limit,
+        schedule.enabled,
+        schedule.next_run_at || null,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get all schedules
+   */
+  static async findAll(): Promise<SyncSchedule[]> {
+    const result = await query(
+      'SELECT * FROM sync_schedules ORDER BY id ASC'
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get schedule by ID
+   */
+  static async findById(id: number): Promise<SyncSchedule | null> {
+    const result = await query(
+      'SELECT * FROM sync_schedules WHERE id = $1',
+      [id]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Get enabled schedules whose next run is due
+   */
+  static async findDue(): Promise<SyncSchedule[]> {
+    const result = await query(
+      `SELECT * FROM sync_schedules
+       WHERE enabled = TRUE AND next_run_at <= NOW()
+       ORDER BY next_run_at ASC`
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Update schedule fields
+   */
+  static async update(id: number, data: Partial<SyncSchedule>): Promise<SyncSchedule | null> {
+    const columns: (keyof SyncSchedule)[] = [
+      'name', 'subreddit', 'search_query', 'cron_expression', 'interval_seconds',
+      'sort', 'time_filter', 'post_limit', 'enabled', 'next_run_at',
+    ];
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    columns.forEach(column => {
+      if (data[column] !== undefined) {
+        updates.push(`${column} = $${paramCount++}`);
+        values.push(data[column]);
+      }
+    });
+
+    if (updates.length === 0) {
+      return this.findById(id);
+    }
+
+    values.push(id);
+    const result = await query(
+      `UPDATE sync_schedules SET ${updates.join(', ')} WHERE id = $${paramCount} RETURNING *`,
+      values
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Record the outcome of a run and when the next one is due
+   */
+  static async markRun(
+    id: number,
+    status: 'success' | 'failed',
+    error: string | null,
+    nextRunAt: Date
+  ): Promise<void> {
+    await query(
+      `UPDATE sync_schedules
+       SET last_run_at = NOW(), last_status = $2, last_error = $3, next_run_at = $4
+       WHERE id = $1`,
+      [id, status, error, nextRunAt]
+    );
+  }
+
+  /**
+   * Delete a schedule
+   */
+  static async delete(id: number): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM sync_schedules WHERE id = $1',
+      [id]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -48,6 +48,58 @@ export class SubredditModel {
     return result.rows;
   }
 
+  /**
+   * Get the newest post seen by previous syncs
+   */
+  static async getSyncWatermark(name: string): Promise<{ createdUtc: Date; redditId: string | null } | null> {
+    const result = await query(
+      `SELECT last_post_created_utc, last_post_reddit_id
+       FROM subreddits
+       WHERE name = $1 AND last_post_created_utc IS NOT NULL`,
+      [name]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    return {
+      createdUtc: result.rows[0].last_post_created_utc,
+      redditId: result.rows[0].last_post_reddit_id,
+    };
+  }
+
+  /**
+   * Record a sync, moving the watermark forward only if the given post is newer
+   */
+  static async updateSyncWatermark(id: number, createdUtc: Date | null, redditId: string | null): Promise<void> {
+    await query(
+      `UPDATE subreddits
+       SET last_synced_at = NOW(),
+           last_post_reddit_id = CASE
+             WHEN $2::timestamp IS NOT NULL AND (last_post_created_utc IS NULL OR last_post_created_utc < $2::timestamp)
+             THEN $3 ELSE last_post_reddit_id END,
+           last_post_created_utc = CASE
+             WHEN $2::timestamp IS NOT NULL AND (last_post_created_utc IS NULL OR last_post_created_utc < $2::timestamp)
+             THEN $2::timestamp ELSE last_post_created_utc END
+       WHERE id = $1`,
+      [id, createdUtc, redditId]
+    );
+  }
+
+  /**
+   * Get subreddits whose /about metadata was never fetched or is older than the TTL
+   */
+  static async findStaleAbout(ttlHours: number, limit: number = 10): Promise<string[]> {
+    const result = await query(
+      `SELECT name FROM subreddits
+       WHERE about_fetched_at IS NULL OR about_fetched_at < NOW() - make_interval(hours => $1)
+       ORDER BY about_fetched_at ASC NULLS FIRST
+       LIMIT $2`,
+      [ttlHours, limit]
+    );
+
+    return result.rows.map(row => row.name);
+  }
+
   /**
    * Update subreddit info
    */
@@ -66,6 +118,31 @@ export class SubredditModel {
       values.push(data.subscribers_count);
     }
 
+    if (data.active_users !== undefined) {
+      updates.push(`active_users = $${paramCount++}`);
+      values.push(data.active_users);
+    }
+
+    if (data.over18 !== undefined) {
+      updates.push(`over18 = $${paramCount++}`);
+      values.push(data.over18);
+    }
+
+    if (data.subreddit_created_utc !== undefined) {
+      updates.push(`subreddit_created_utc = $${paramCount++}`);
+      values.push(data.subreddit_created_utc);
+    }
+
+    if (data.status !== undefined) {
+      updates.push(`status = $${paramCount++}`);
+      values.push(data.status);
+    }
+
+    if (data.about_fetched_at !== undefined) {
+      updates.push(`about_fetched_at = $${paramCount++}`);
+      values.push(data.about_fetched_at);
+    }
+
     if (updates.length > 0) {
       values.push(name);
       await query(
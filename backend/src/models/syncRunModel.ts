@@ -0,0 +1,89 @@
+import { query } from '../utils/database';
+import { SyncResult, SyncRun, SyncRunFilters, SyncRunType } from '../types';
+
+export class SyncRunModel {
+  /**
+   * Record the start of a sync run
+   */
+  static async start(
+    type: SyncRunType,
+    subreddit: string | null,
+    searchQuery: string | null,
+    params: Record<string, any>
+  ): Promise<number> {
+    const result = await query(
+      `INSERT INTO sync_runs (type, subreddit, query, params, status)
+       VALUES ($1, $2, $3, $4, 'running')
+       RETURNING id`,
+      [type, subreddit, searchQuery, JSON.stringify(params)]
+    );
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * Record the outcome of a sync run
+   */
+  static async finish(id: number, result: SyncResult): Promise<void> {
+    await query(
+      `UPDATE sync_runs
+       SET status = $2, finished_at = NOW(), posts_inserted = $3, posts_updated = $4,
+           comments_count = $5, api_requests = $6, errors = $7
+       WHERE id = $1`,
+      [
+        id,
+        result.success ? 'success' : 'failed',
+        result.postsInserted || 0,
+        result.postsUpdated || 0,
+        result.commentsCount || 0,
+        result.apiRequests || 0,
+        JSON.stringify(result.errors),
+      ]
+    );
+  }
+
+  /**
+   * List sync runs, most recent first
+   */
+  static async find(filters: SyncRunFilters): Promise<SyncRun[]> {
+    let sql = 'SELECT * FROM sync_runs WHERE 1=1';
+    const params: any[] = [];
+    let paramCount = 1;
+
+    if (filters.subreddit) {
+      sql += ` AND LOWER(subreddit) = LOWER($${paramCount})`;
+      params.push(filters.subreddit);
+      paramCount++;
+    }
+
+    if (filters.type) {
+      sql += ` AND type = $${paramCount}`;
+      params.push(filters.type);
+      paramCount++;
+    }
+
+    if (filters.status) {
+      sql += ` AND status = $${paramCount}`;
+      params.push(filters.status);
+      paramCount++;
+    }
+
+    if (filters.from) {
+      sql += ` AND started_at >= $${paramCount}`;
+      params.push(filters.from);
+      paramCount++;
+    }
+
+    if (filters.to) {
+      sql += ` AND started_at <= $${paramCount}`;
+      params.push(filters.to);
+      paramCount++;
+    }
+
+    sql += ` ORDER BY started_at DESC LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
+    params.push(filters.limit || 50, filters.offset || 0);
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+}
@@ -0,0 +1,53 @@
+import { query } from '../utils/database';
+import { User, UserRole } from '../types';
+
+export class UserModel {
+  /**
+   * Create a user
+   */
+  static async create(data: { email?: string | null; name?: string | null; role: UserRole }): Promise<User> {
+    const result = await query(
+      `INSERT INTO users (email, name, role)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [data.email || null, data.name || null, data.role]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get or create the user behind an identity provider subject.
+   * Email and name follow the token, the role only when the token carries one.
+   */
+  static async upsertExternal(
+    externalId: string,
+    data: { email?: string | null; name?: string | null; role?: UserRole | null },
+    defaultRole: UserRole
+  ): Promise<User> {
+    const result = await query(
+      `INSERT INTO users (external_id, email, name, role)
+       VALUES ($1, $2, $3, COALESCE($4, $5))
+       ON CONFLICT (external_id) DO UPDATE SET
+         email = COALESCE(EXCLUDED.email, users.email),
+         name = COALESCE(EXCLUDED.name, users.name),
+         role = COALESCE($4, users.role)
+       RETURNING *`,
+      [externalId, data.email || null, data.name || null, data.role || null, defaultRole]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get user by ID
+   */
+  static async findById(id: number): Promise<User | null> {
+    const result = await query(
+      'SELECT * FROM users WHERE id = $1',
+      [id]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+}
@@ -0,0 +1,28 @@
+import pool from '../utils/database';
+import authService from '../services/authService';
+import { UserModel } from '../models/userModel';
+import { UserRole } from '../types';
+
+// Bootstrap a user and its first API key, later keys can be created through /api/auth/keys.
+// Usage: npm run create-api-key -- <email> [viewer|operator] [key name]
+const main = async () => {
+  const [email, role = 'viewer', keyName = 'default'] = process.argv.slice(2);
+
+  if (!email || !['viewer', 'operator'].includes(role)) {
+    console.error('Usage: npm run create-api-key -- <email> [viewer|operator] [key name]');
+    process.exit(1);
+  }
+
+  const user = await UserModel.create({ email, role: role as UserRole });
+  const { key } = await authService.createApiKey(user.id, keyName);
+
+  console.log(`✅ Created ${role} user ${user.id} (${email})`);
+  console.log(`🔑 API key, it will not be shown again: ${key}`);
+};
+
+main()
+  .catch(error => {
+    console.error('❌ Failed to create API key:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
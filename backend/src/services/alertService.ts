@@ -0,0 +1,191 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { AlertRuleModel } from '../models/alertRuleModel';
+import { AlertDeliveryModel } from '../models/alertDeliveryModel';
+import { PostModel } from '../models/postModel';
+import { assertPublicWebhook, webhookHttpAgent, webhookHttpsAgent } from '../utils/webhookTarget';
+import { AlertDelivery, AlertEvent, AlertRule, SearchResult } from '../types';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+class AlertService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing: boolean = false;
+  private readonly MAX_ATTEMPTS = parseInt(process.env.ALERT_WEBHOOK_MAX_ATTEMPTS || '3');
+  private readonly RETRY_DELAY = parseInt(process.env.ALERT_WEBHOOK_RETRY_DELAY_MS || '2000');
+  private readonly TIMEOUT = parseInt(process.env.ALERT_WEBHOOK_TIMEOUT_MS || '5000');
+  private readonly MAX_POSTS_PER_DELIVERY = parseInt(process.env.ALERT_MAX_POSTS_PER_DELIVERY || '50');
+  private readonly POLL_INTERVAL = parseInt(process.env.ALERT_DELIVERY_POLL_INTERVAL_MS || '1000');
+
+  /**
+   * Start sending queued webhook deliveries
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.processDue(), this.POLL_INTERVAL);
+    console.log('🔔 Alert delivery worker started');
+  }
+
+  /**
+   * Stop sending queued webhook deliveries
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate every active rule against newly inserted posts and queue a delivery for the matching ones.
+   * Webhooks are called by the delivery worker, so a slow or dead webhook never holds up a sync.
+   */
+  async evaluate(postIds: number[]): Promise<void> {
+    if (postIds.length === 0) return;
+
+    const rules = await AlertRuleModel.findActive();
+
+    for (const rule of rules) {
+      try {
+        const { results: matches } = await PostModel.search({
+          query: rule.query,
+          subreddits: rule.subreddits || undefined,
+          minUpvotes: rule.min_score,
+          postIds,
+          limit: this.MAX_POSTS_PER_DELIVERY,
+        });
+
+        if (matches.length === 0) continue;
+
+        // Another sync may have triggered the rule since findActive
+        if (!(await AlertRuleModel.markTriggered(rule.id!))) continue;
+
+        console.log(`🔔 Alert "${rule.name}" matched ${matches.length} new posts`);
+        await this.enqueue(rule, 'alert.triggered', matches);
+      } catch (error: any) {
+        console.error(`❌ Failed to evaluate alert rule ${rule.id}:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Send a test payload to the webhook of a rule. The first attempt is made right away so the
+   * caller sees its outcome, failed attempts are retried by the delivery worker.
+   */
+  async sendTest(rule: AlertRule): Promise<AlertDelivery> {
+    // Kept out of the worker's reach while this first attempt runs
+    const delivery = await this.enqueue(rule, 'alert.test', [], this.leaseMs());
+    return this.attempt(delivery, rule.webhook_url, rule.webhook_secret);
+  }
+
+  /**
+   * Record a pending delivery with its payload
+   */
+  private async enqueue(rule: AlertRule, event: AlertEvent, posts: SearchResult[], delayMs: number = 0): Promise<AlertDelivery> {
+    const payload = {
+      event,
+      rule: { id: rule.id, name: rule.name, query: rule.query },
+      triggeredAt: new Date().toISOString(),
+      posts: posts.map(post => ({
+        redditId: post.reddit_id,
+        title: post.title,
+        subreddit: post.subreddit_name,
+        author: post.author_username,
+        score: post.score,
+        commentCount: post.comment_count,
+        url: post.url,
+        createdUtc: post.created_utc,
+      })),
+    };
+
+    return AlertDeliveryModel.create(rule.id!, event, posts.map(post => post.id!), payload, delayMs);
+  }
+
+  /**
+   * Send every due delivery, one at a time per instance
+   */
+  private async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let claimed;
+      while ((claimed = await AlertDeliveryModel.claimDue(this.leaseMs()))) {
+        await this.attempt(claimed.delivery, claimed.webhookUrl, claimed.webhookSecret);
+      }
+    } catch (error: any) {
+      console.error('❌ Alert delivery worker error:', error.message);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * POST the signed payload once. A failed attempt is retried later with exponential backoff,
+   * until MAX_ATTEMPTS attempts have been made.
+   */
+  private async attempt(delivery: AlertDelivery, webhookUrl: string, webhookSecret: string): Promise<AlertDelivery> {
+    const attempt = delivery.attempts + 1;
+    const body = JSON.stringify({ deliveryId: delivery.id, ...delivery.payload });
+    // The timestamp is signed with the body so receivers can reject replays
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    let responseStatus: number | null = null;
+    let error: string;
+
+    try {
+      // Rules saved before a host started resolving to a private address are caught here
+      await assertPublicWebhook(webhookUrl);
+
+      const response = await axios.post(webhookUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Alert-Delivery': String(delivery.id),
+          'X-Alert-Timestamp': timestamp,
+          'X-Alert-Signature': `sha256=${this.sign(webhookSecret, timestamp, body)}`,
+        },
+        timeout: this.TIMEOUT,
+        validateStatus: () => true,
+        // A redirect could point at an internal address
+        maxRedirects: 0,
+        httpAgent: webhookHttpAgent,
+        httpsAgent: webhookHttpsAgent,
+      });
+
+      responseStatus = response.status;
+      if (response.status >= 200 && response.status < 300) {
+        return AlertDeliveryModel.finish(delivery.id!, 'success', attempt, responseStatus, null);
+      }
+
+      error = `Webhook responded with HTTP ${response.status}`;
+    } catch (requestError: any) {
+      error = requestError.message;
+    }
+
+    if (attempt >= this.MAX_ATTEMPTS) {
+      console.error(`❌ Alert delivery ${delivery.id} failed after ${attempt} attempts: ${error}`);
+      return AlertDeliveryModel.finish(delivery.id!, 'failed', attempt, responseStatus, error);
+    }
+
+    const waitTime = this.RETRY_DELAY * Math.pow(2, attempt - 1);
+    return AlertDeliveryModel.retryLater(delivery.id!, attempt, waitTime, responseStatus, error);
+  }
+
+  /**
+   * How long a claimed delivery is hidden from other workers, enough for one attempt
+   */
+  private leaseMs(): number {
+    return this.TIMEOUT * 2 + 5000;
+  }
+
+  /**
+   * HMAC-SHA256 of `${timestamp}.${body}`, hex encoded
+   */
+  private sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+}
+
+export default new AlertService();
@@ -0,0 +1,193 @@
+import axios from 'axios';
+import { createHash, createPublicKey, randomBytes, verify, JsonWebKey, KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+import { ApiKeyModel } from '../models/apiKeyModel';
+import { UserModel } from '../models/userModel';
+import { ApiKey, AuthContext, UserRole } from '../types';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const API_KEY_PREFIX = 'ra_';
+const ROLES: UserRole[] = ['viewer', 'operator'];
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+class AuthService {
+  // Off only for local development, every route is then public
+  readonly enabled = process.env.AUTH_ENABLED !== 'false';
+  // JWKS of the identity provider, e.g. https://<clerk-domain>/.well-known/jwks.json, or a local file path
+  private readonly JWKS_URL = process.env.AUTH_JWKS_URL || '';
+  private readonly JWT_ISSUER = process.env.AUTH_JWT_ISSUER || '';
+  private readonly JWT_AUDIENCE = process.env.AUTH_JWT_AUDIENCE || '';
+  private readonly ROLE_CLAIM = process.env.AUTH_ROLE_CLAIM || 'role';
+  private readonly DEFAULT_ROLE = (process.env.AUTH_DEFAULT_ROLE || 'viewer') as UserRole;
+  private readonly JWKS_CACHE_TTL = parseInt(process.env.AUTH_JWKS_CACHE_TTL_MS || '600000');
+  private readonly CLOCK_SKEW_SECONDS = 30;
+
+  private signingKeys: Map<string, KeyObject> = new Map();
+  private signingKeysFetchedAt: number = 0;
+
+  /**
+   * Resolve the caller from an API key or a bearer token, returns null when no credential is given.
+   * Throws AuthError when a credential is given but is not valid.
+   */
+  async authenticate(credential: string | undefined): Promise<AuthContext | null> {
+    if (!credential) return null;
+
+    if (credential.startsWith(API_KEY_PREFIX)) {
+      const found = await ApiKeyModel.findUserByHash(this.hashKey(credential));
+      if (!found) {
+        throw new AuthError('Invalid or revoked API key');
+      }
+
+      return { user: found.user, method: 'api_key', apiKeyId: found.apiKeyId };
+    }
+
+    const claims = await this.verifyJwt(credential);
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new AuthError('Token has no subject');
+    }
+
+    const roleClaim = this.readClaim(claims, this.ROLE_CLAIM);
+    const user = await UserModel.upsertExternal(
+      claims.sub,
+      {
+        email: typeof claims.email === 'string' ? claims.email : null,
+        name: typeof claims.name === 'string' ? claims.name : null,
+        role: ROLES.includes(roleClaim) ? roleClaim : null,
+      },
+      this.DEFAULT_ROLE
+    );
+
+    return { user, method: 'jwt' };
+  }
+
+  /**
+   * Create an API key for a user. The plain key is only returned here, only its hash is stored.
+   */
+  async createApiKey(userId: number, name: string): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const apiKey = await ApiKeyModel.create(userId, name, key.slice(0, 10), this.hashKey(key));
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Whether a role grants at least the permissions of another
+   */
+  hasRole(role: UserRole, required: UserRole): boolean {
+    return ROLES.indexOf(role) >= ROLES.indexOf(required);
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Verify an RS256 JWT against the JWKS and check its time, issuer and audience claims
+   */
+  private async verifyJwt(token: string): Promise<Record<string, any>> {
+    if (!this.JWKS_URL) {
+      throw new AuthError('Bearer tokens are not accepted, AUTH_JWKS_URL is not configured');
+    }
+
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthError('Malformed token');
+    }
+
+    let header: Record<string, any>;
+    let claims: Record<string, any>;
+    try {
+      header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+      claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    } catch {
+      throw new AuthError('Malformed token');
+    }
+
+    if (header.alg !== 'RS256') {
+      throw new AuthError(`Unsupported token algorithm ${header.alg}`);
+    }
+
+    const key = await this.getSigningKey(header.kid);
+    const valid = verify(
+      'RSA-SHA256',
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      key,
+      Buffer.from(parts[2], 'base64url')
+    );
+    if (!valid) {
+      throw new AuthError('Invalid token signature');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp !== 'number' || claims.exp + this.CLOCK_SKEW_SECONDS < now) {
+      throw new AuthError('Token expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - this.CLOCK_SKEW_SECONDS > now) {
+      throw new AuthError('Token not yet valid');
+    }
+    if (this.JWT_ISSUER && claims.iss !== this.JWT_ISSUER) {
+      throw new AuthError('Invalid token issuer');
+    }
+    if (this.JWT_AUDIENCE) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.JWT_AUDIENCE)) {
+        throw new AuthError('Invalid token audience');
+      }
+    }
+
+    return claims;
+  }
+
+  /**
+   * Get a signing key by ID, the JWKS is refetched when stale or when the key is unknown (key rotation)
+   */
+  private async getSigningKey(kid: string | undefined): Promise<KeyObject> {
+    const stale = Date.now() - this.signingKeysFetchedAt > this.JWKS_CACHE_TTL;
+    const unknown = !this.signingKeys.has(kid || '');
+    // Unknown key IDs refetch at most every 30 seconds so forged tokens cannot hammer the provider
+    const canRefetch = Date.now() - this.signingKeysFetchedAt > 30000;
+
+    if (stale || (unknown && canRefetch)) {
+      await this.fetchSigningKeys();
+    }
+
+    const key = kid ? this.signingKeys.get(kid) : this.signingKeys.size === 1 ? [...this.signingKeys.values()][0] : undefined;
+    if (!key) {
+      throw new AuthError('Unknown token signing key');
+    }
+
+    return key;
+  }
+
+  private async fetchSigningKeys(): Promise<void> {
+    const jwks = /^https?:\/\//.test(this.JWKS_URL)
+      ? (await axios.get(this.JWKS_URL, { timeout: 5000 })).data
+      : JSON.parse(await readFile(this.JWKS_URL, 'utf8'));
+
+    const keys = new Map<string, KeyObject>();
+    (jwks.keys || []).forEach((jwk: JsonWebKey & { kid?: string; use?: string }) => {
+      if (jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig')) return;
+      keys.set(jwk.kid || '', createPublicKey({ key: jwk, format: 'jwk' }));
+    });
+
+    this.signingKeys = keys;
+    this.signingKeysFetchedAt = Date.now();
+  }
+
+  /**
+   * Read a claim by dotted path, e.g. "public_metadata.role" for a Clerk session token template
+   */
+  private readClaim(claims: Record<string, any>, path: string): any {
+    return path.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), claims);
+  }
+}
+
+export default new AuthService();
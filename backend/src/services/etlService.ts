@@ -2,11 +2,25 @@ import redditService from './redditService';
 import { SubredditModel } from '../models/subredditModel';
 import { AuthorModel } from '../models/authorModel';
 import { PostModel } from '../models/postModel';
-import { RedditPost } from '../types';
+import { CommentModel } from '../models/commentModel';
+import { SyncRunModel } from '../models/syncRunModel';
+import alertService from './alertService';
+import realtimeService from './realtimeService';
+import { RedditPost, SubredditStatus, SyncResult, SyncRunType, SyncSubredditOptions } from '../types';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Subreddits whose listings cannot be read with an app-only token
+const UNREADABLE_SUBREDDIT_STATUSES: SubredditStatus[] = ['private', 'quarantined', 'banned', 'not_found'];
 
 //Les services contiennent la vraie logique métier (la logique fonctionnelle). Contrairement aux controllers, ce sont eux qui font réellement le travail.
 
 class ETLService {
+  private readonly AUTHOR_PROFILE_TTL_HOURS = parseInt(process.env.AUTHOR_PROFILE_TTL_HOURS || '168');
+  private readonly AUTHOR_ENRICHMENT_MAX_PER_SYNC = parseInt(process.env.AUTHOR_ENRICHMENT_MAX_PER_SYNC || '25');
+  private readonly SUBREDDIT_ABOUT_TTL_HOURS = parseInt(process.env.SUBREDDIT_ABOUT_TTL_HOURS || '24');
+
   /**
    * Sync posts from a subreddit to database
    */
@@ -14,29 +28,143 @@ class ETLService {
     subredditName: string,
     limit: number = 100,
     timeFilter: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all' = 'week',
-    sort: 'hot' | 'new' | 'top' | 'rising' = 'hot'
-  ): Promise<{ success: boolean; postsCount: number; errors: string[] }> {
-    console.log(`🔄 Starting ETL for r/${subredditName}...`);
+    sort: 'hot' | 'new' | 'top' | 'rising' = 'hot',
+    options: SyncSubredditOptions = {}
+  ): Promise<SyncResult> {
+    return this.recordRun(
+      'subreddit',
+      { subreddit: subredditName, params: { limit, timeFilter, sort, ...options } },
+      () => this.runSubredditSync(subredditName, limit, timeFilter, sort, options)
+    );
+  }
+
+  /**
+   * Sync the comment tree of a single post to database
+   */
+  async syncPostComments(
+    subredditName: string,
+    postRedditId: string,
+    limit: number = 100
+  ): Promise<SyncResult> {
+    return this.recordRun(
+      'comments',
+      { subreddit: subredditName, params: { postId: postRedditId, limit } },
+      () => this.runPostCommentsSync(subredditName, postRedditId, limit)
+    );
+  }
+
+  /**
+   * Search and sync posts based on query
+   */
+  async syncSearchResults(
+    query: string,
+    subreddit?: string,
+    limit: number = 100,
+    sort: 'relevance' | 'hot' | 'top' | 'new' | 'comments' = 'relevance',
+    timeFilter: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all' = 'all'
+  ): Promise<SyncResult> {
+    return this.recordRun(
+      'search',
+      { subreddit, query, params: { limit, sort, timeFilter } },
+      () => this.runSearchSync(query, subreddit, limit, sort, timeFilter)
+    );
+  }
+
+  /**
+   * Persist a sync run around its execution, a failing audit log never fails the sync itself
+   */
+  private async recordRun(
+    type: SyncRunType,
+    run: { subreddit?: string; query?: string; params: Record<string, any> },
+    execute: () => Promise<SyncResult>
+  ): Promise<SyncResult> {
+    let runId: number | undefined;
+
+    try {
+      runId = await SyncRunModel.start(type, run.subreddit || null, run.query || null, run.params);
+    } catch (error: any) {
+      console.error('❌ Failed to record sync run start:', error.message);
+    }
+
+    const result = await execute();
+
+    if (runId !== undefined) {
+      try {
+        await SyncRunModel.finish(runId, result);
+      } catch (error: any) {
+        console.error(`❌ Failed to record sync run ${runId} end:`, error.message);
+      }
+    }
+
+    return { ...result, runId };
+  }
+
+  /**
+   * Fetch and store posts of a subreddit
+   */
+  private async runSubredditSync(
+    subredditName: string,
+    limit: number,
+    timeFilter: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all',
+    sort: 'hot' | 'new' | 'top' | 'rising',
+    options: SyncSubredditOptions
+  ): Promise<SyncResult> {
+    const mode = options.mode || 'full';
+    console.log(`🔄 Starting ${mode} ETL for r/${subredditName}...`);
 
     const errors: string[] = [];
     let postsCount = 0;
+    let postsInserted = 0;
+    let commentsCount = 0;
+    let apiRequests = 0;
 
     try {
-      // 1. Fetch posts from Reddit
-      const posts = await redditService.fetchPosts(subredditName, limit, timeFilter, sort);
+      // 1. Store subreddit and refresh its metadata when stale
+      const subredditId = await SubredditModel.findOrCreate(subredditName);
+      const subreddit = await SubredditModel.findByName(subredditName);
+      let subredditStatus = subreddit?.status || undefined;
 
-      if (posts.length === 0) {
-        console.log(`⚠️ No posts found in r/${subredditName}`);
-        return { success: true, postsCount: 0, errors: [] };
+      if (this.isAboutStale(subreddit?.about_fetched_at)) {
+        subredditStatus = await this.refreshSubredditAbout(subredditName);
+        apiRequests++;
       }
 
-      // 2. Store subreddit
-      const subredditId = await SubredditModel.findOrCreate(subredditName);
+      if (subredditStatus && UNREADABLE_SUBREDDIT_STATUSES.includes(subredditStatus)) {
+        console.log(`⚠️ r/${subredditName} is ${subredditStatus}, skipping posts`);
+        return {
+          success: true,
+          postsCount: 0,
+          apiRequests,
+          subredditStatus,
+          errors: [`r/${subredditName} is ${subredditStatus}, posts were not synced`],
+        };
+      }
+
+      // 2. Fetch posts from Reddit (incremental mode only reads `new` down to the watermark)
+      const watermark = await SubredditModel.getSyncWatermark(subredditName);
+      const { posts, pagesFetched, after, reachedStop, cached } = mode === 'incremental'
+        ? await redditService.fetchNewPostsSince(subredditName, watermark, limit)
+        : await redditService.fetchPosts(subredditName, limit, timeFilter, sort);
+      apiRequests += pagesFetched;
+
+      if (posts.length === 0) {
+        await SubredditModel.updateSyncWatermark(subredditId, null, null);
+        console.log(`⚠️ No ${mode === 'incremental' ? 'new ' : ''}posts found in r/${subredditName}`);
+        return { success: true, postsCount: 0, pagesFetched, apiRequests, subredditStatus, errors: [] };
+      }
 
       // 3. Process each post
+      const storedPosts: RedditPost[] = [];
+      const insertedPostIds: number[] = [];
       for (const post of posts) {
         try {
-          await this.storePost(post, subredditId);
+          // A cached listing was already snapshotted when it was fetched
+          const { id, inserted } = await this.storePost(post, subredditId, !cached);
+          if (inserted) {
+            postsInserted++;
+            insertedPostIds.push(id);
+          }
+          storedPosts.push(post);
           postsCount++;
         } catch (error: any) {
           errors.push(`Failed to store post ${post.id}: ${error.message}`);
@@ -44,11 +172,55 @@ class ETLService {
         }
       }
 
+      // 4. Move the sync watermark to the newest stored post. Only the `new` listing runs back to it,
+      // and only if it got there: posts between it and the previous watermark must not be left unread.
+      const readsNew = mode === 'incremental' || sort === 'new';
+      const reachedWatermark = !watermark || reachedStop || !after
+        || posts.some(post => post.created_utc * 1000 <= watermark.createdUtc.getTime());
+      const coversWatermark = readsNew && reachedWatermark;
+      const newestPost = storedPosts.length > 0 && coversWatermark
+        ? storedPosts.reduce((newest, post) => post.created_utc > newest.created_utc ? post : newest)
+        : null;
+      if (!coversWatermark && mode === 'incremental') {
+        errors.push(`Read ${posts.length} posts of r/${subredditName} without reaching the previous sync, watermark kept. Raise the limit to catch up.`);
+      }
+      await SubredditModel.updateSyncWatermark(
+        subredditId,
+        newestPost ? new Date(newestPost.created_utc * 1000) : null,
+        newestPost ? newestPost.id : null
+      );
+
+      // 5. Refresh karma of stale authors
+      apiRequests += await this.enrichAuthors(storedPosts.map(post => post.author), errors);
+
+      // 6. Notify alert rules matching the new posts
+      await this.evaluateAlerts(insertedPostIds);
+
+      // 7. Optionally fetch comments for the highest scoring posts
+      if (options.commentsForTopPosts && options.commentsForTopPosts > 0) {
+        const topPosts = [...storedPosts]
+          .sort((a, b) => b.score - a.score)
+          .slice(0, options.commentsForTopPosts);
+
+        for (const post of topPosts) {
+          const commentResult = await this.runPostCommentsSync(subredditName, post.id, 100);
+          commentsCount += commentResult.commentsCount || 0;
+          apiRequests += commentResult.apiRequests || 0;
+          errors.push(...commentResult.errors);
+        }
+      }
+
       console.log(`✅ ETL completed for r/${subredditName}: ${postsCount}/${posts.length} posts stored`);
 
       return {
         success: true,
         postsCount,
+        postsInserted,
+        postsUpdated: postsCount - postsInserted,
+        commentsCount,
+        pagesFetched,
+        apiRequests,
+        subredditStatus,
         errors,
       };
     } catch (error: any) {
@@ -56,27 +228,159 @@ class ETLService {
       return {
         success: false,
         postsCount,
+        postsInserted,
+        postsUpdated: postsCount - postsInserted,
+        commentsCount,
+        apiRequests,
         errors: [error.message],
       };
     }
   }
 
   /**
-   * Store a single post with author info
+   * Fetch /about metadata of a subreddit and store it, returns the subreddit status
    */
-  private async storePost(redditPost: RedditPost, subredditId: number): Promise<void> {
-    // 1. Store or update author
-    const authorId = await AuthorModel.findOrCreate(
-      redditPost.author,
-      0, // We'd need to fetch this from Reddit user API
-      0
-    );
+  async refreshSubredditAbout(subredditName: string): Promise<SubredditStatus> {
+    const about = await redditService.fetchSubredditAbout(subredditName);
+    await SubredditModel.findOrCreate(subredditName);
+
+    if (UNREADABLE_SUBREDDIT_STATUSES.includes(about.status)) {
+      // Keep the last known metadata, only record why it is unavailable
+      await SubredditModel.update(subredditName, {
+        status: about.status,
+        about_fetched_at: new Date(),
+      });
+    } else {
+      await SubredditModel.update(subredditName, {
+        description: about.description || undefined,
+        subscribers_count: about.subscribers,
+        active_users: about.active_users,
+        over18: about.over18,
+        subreddit_created_utc: about.created_utc ? new Date(about.created_utc * 1000) : null,
+        status: about.status,
+        about_fetched_at: new Date(),
+      });
+    }
+
+    return about.status;
+  }
+
+  /**
+   * Refresh metadata of the subreddits not refreshed within the TTL
+   */
+  async refreshStaleSubreddits(limit: number = 5): Promise<number> {
+    const names = await SubredditModel.findStaleAbout(this.SUBREDDIT_ABOUT_TTL_HOURS, limit);
+    let refreshed = 0;
+
+    for (const name of names) {
+      try {
+        await this.refreshSubredditAbout(name);
+        refreshed++;
+      } catch (error: any) {
+        console.error(`❌ Failed to refresh r/${name} metadata:`, error.message);
+      }
+    }
+
+    if (refreshed > 0) {
+      console.log(`🏷️  Refreshed metadata of ${refreshed} subreddits`);
+    }
+
+    return refreshed;
+  }
+
+  private isAboutStale(fetchedAt?: Date | null): boolean {
+    if (!fetchedAt) return true;
+    return new Date(fetchedAt).getTime() < Date.now() - this.SUBREDDIT_ABOUT_TTL_HOURS * 3600 * 1000;
+  }
+
+  /**
+   * Fetch and store the comments of a post
+   */
+  private async runPostCommentsSync(
+    subredditName: string,
+    postRedditId: string,
+    limit: number
+  ): Promise<SyncResult> {
+    console.log(`💬 Syncing comments for post ${postRedditId}...`);
+
+    const errors: string[] = [];
+    let commentsCount = 0;
+    let apiRequests = 0;
+
+    try {
+      const post = await PostModel.findByRedditId(postRedditId);
+
+      if (!post) {
+        return {
+          success: false,
+          postsCount: 0,
+          commentsCount: 0,
+          errors: [`Post ${postRedditId} must be synced before its comments`],
+        };
+      }
+
+      const comments = await redditService.fetchComments(subredditName, postRedditId, limit);
+      apiRequests++;
+
+      for (const comment of comments) {
+        try {
+          const authorId = await AuthorModel.findOrCreate(comment.author);
+
+          await CommentModel.create({
+            reddit_id: comment.id,
+            post_id: post.id!,
+            author_id: authorId,
+            parent_reddit_id: comment.parent_id,
+            depth: comment.depth,
+            content: comment.body,
+            score: comment.score,
+            created_utc: new Date(comment.created_utc * 1000),
+          });
+          commentsCount++;
+        } catch (error: any) {
+          errors.push(`Failed to store comment ${comment.id}: ${error.message}`);
+        }
+      }
+
+      apiRequests += await this.enrichAuthors(comments.map(comment => comment.author), errors);
+
+      console.log(`✅ Comments synced for post ${postRedditId}: ${commentsCount}/${comments.length} stored`);
+
+      return {
+        success: true,
+        postsCount: 0,
+        commentsCount,
+        apiRequests,
+        errors,
+      };
+    } catch (error: any) {
+      console.error(`❌ Comment sync failed for post ${postRedditId}:`, error.message);
+      return {
+        success: false,
+        postsCount: 0,
+        commentsCount,
+        apiRequests,
+        errors: [error.message],
+      };
+    }
+  }
+
+  /**
+   * Store a single post with author info, `inserted` is true if the post is new
+   */
+  private async storePost(
+    redditPost: RedditPost,
+    subredditId: number,
+    snapshot: boolean = true
+  ): Promise<{ id: number; inserted: boolean }> {
+    // 1. Store author, karma is filled in later by enrichAuthors
+    const authorId = await AuthorModel.findOrCreate(redditPost.author);
 
     // 2. Store post
     const postData = {
       reddit_id: redditPost.id,
       title: redditPost.title,
-      content: redditPost.selftext || null,
+      content: redditPost.selftext || undefined,
       subreddit_id: subredditId,
       author_id: authorId,
       score: redditPost.score,
@@ -88,28 +392,105 @@ class ETLService {
       processed: false,
     };
 
-    await PostModel.create(postData);
+    const stored = await PostModel.create(postData, snapshot);
+
+    // 3. Push new posts to real-time subscribers
+    if (stored.inserted) {
+      await realtimeService.publishPost({
+        id: stored.id,
+        reddit_id: redditPost.id,
+        title: redditPost.title,
+        content: redditPost.selftext || null,
+        subreddit: redditPost.subreddit,
+        author: redditPost.author,
+        score: redditPost.score,
+        comment_count: redditPost.num_comments,
+        url: redditPost.url,
+        created_utc: postData.created_utc.toISOString(),
+      });
+    }
+
+    return stored;
   }
 
   /**
-   * Search and sync posts based on query
+   * Run alert rules against newly inserted posts, a failing alert never fails the sync itself
    */
-  async syncSearchResults(
+  private async evaluateAlerts(insertedPostIds: number[]): Promise<void> {
+    try {
+      await alertService.evaluate(insertedPostIds);
+    } catch (error: any) {
+      console.error('❌ Failed to evaluate alert rules:', error.message);
+    }
+  }
+
+  /**
+   * Fetch Reddit profiles of authors not refreshed within the TTL, returns the number of API calls made
+   */
+  private async enrichAuthors(usernames: string[], errors: string[]): Promise<number> {
+    if (this.AUTHOR_ENRICHMENT_MAX_PER_SYNC <= 0) return 0;
+
+    const candidates = [...new Set(usernames)].filter(
+      username => username && username !== '[deleted]'
+    );
+    const stale = (await AuthorModel.findStale(candidates, this.AUTHOR_PROFILE_TTL_HOURS))
+      .slice(0, this.AUTHOR_ENRICHMENT_MAX_PER_SYNC);
+
+    let apiRequests = 0;
+    for (const username of stale) {
+      try {
+        const { user, cached } = await redditService.fetchUser(username);
+        // Profiles still in the Redis cache cost no request
+        if (!cached) apiRequests++;
+
+        if (!user) {
+          await AuthorModel.updateProfile(username, { status: 'not_found' });
+        } else if (user.is_suspended) {
+          await AuthorModel.updateProfile(username, { status: 'suspended' });
+        } else {
+          await AuthorModel.updateProfile(username, {
+            linkKarma: user.link_karma,
+            commentKarma: user.comment_karma,
+            accountCreatedUtc: user.created_utc ? new Date(user.created_utc * 1000) : null,
+            status: 'active',
+          });
+        }
+      } catch (error: any) {
+        errors.push(`Failed to enrich author ${username}: ${error.message}`);
+      }
+    }
+
+    if (stale.length > 0) {
+      console.log(`👤 Enriched ${stale.length} author profiles`);
+    }
+
+    return apiRequests;
+  }
+
+  /**
+   * Search Reddit and store matching posts
+   */
+  private async runSearchSync(
     query: string,
-    subreddit?: string,
-    limit: number = 100
-  ): Promise<{ success: boolean; postsCount: number; errors: string[] }> {
+    subreddit: string | undefined,
+    limit: number,
+    sort: 'relevance' | 'hot' | 'top' | 'new' | 'comments',
+    timeFilter: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all'
+  ): Promise<SyncResult> {
     console.log(`🔍 Searching and syncing: "${query}"${subreddit ? ` in r/${subreddit}` : ''}`);
 
     const errors: string[] = [];
     let postsCount = 0;
+    let postsInserted = 0;
+    let apiRequests = 0;
 
     try {
-      const posts = await redditService.searchPosts(query, subreddit, limit);
+      const { posts, pagesFetched } = await redditService.searchPosts(query, subreddit, limit, sort, timeFilter);
+      apiRequests += pagesFetched;
 
       if (posts.length === 0) {
         console.log(`⚠️ No posts found for query: "${query}"`);
-        return { success: true, postsCount: 0, errors: [] };
+        return { success: true, postsCount: 0, pagesFetched, apiRequests, errors: [] };
       }
 
       // Group posts by subreddit
@@ -122,13 +503,18 @@ class ETLService {
       });
 
       // Process each subreddit
+      const insertedPostIds: number[] = [];
       for (const [subredditName, subredditPosts] of postsBySubreddit) {
         try {
           const subredditId = await SubredditModel.findOrCreate(subredditName);
 
           for (const post of subredditPosts) {
             try {
-              await this.storePost(post, subredditId);
+              const { id, inserted } = await this.storePost(post, subredditId);
+              if (inserted) {
+                postsInserted++;
+                insertedPostIds.push(id);
+              }
               postsCount++;
             } catch (error: any) {
               errors.push(`Failed to store post ${post.id}: ${error.message}`);
@@ -139,11 +525,18 @@ class ETLService {
         }
       }
 
+      apiRequests += await this.enrichAuthors(posts.map(post => post.author), errors);
+      await this.evaluateAlerts(insertedPostIds);
+
       console.log(`✅ Search sync completed: ${postsCount}/${posts.length} posts stored`);
 
       return {
         success: true,
         postsCount,
+        postsInserted,
+        postsUpdated: postsCount - postsInserted,
+        pagesFetched,
+        apiRequests,
         errors,
       };
     } catch (error: any) {
@@ -151,6 +544,9 @@ class ETLService {
       return {
         success: false,
         postsCount,
+        postsInserted,
+        postsUpdated: postsCount - postsInserted,
+        apiRequests,
         errors: [error.message],
       };
     }
@@ -162,7 +558,7 @@ class ETLService {
   async syncMultipleSubreddits(
     subreddits: string[],
     limit: number = 50
-  ): Promise<Map<string, { success: boolean; postsCount: number; errors: string[] }>> {
+  ): Promise<Map<string, SyncResult>> {
     console.log(`🔄 Batch syncing ${subreddits.length} subreddits...`);
 
     const results = new Map();
@@ -0,0 +1,94 @@
+import { Readable } from 'stream';
+import { PostModel } from '../models/postModel';
+import { SearchQuery, SearchResult } from '../types';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+// Exportable columns and the search result field each one reads
+export const EXPORT_COLUMNS: Record<string, keyof SearchResult> = {
+  reddit_id: 'reddit_id',
+  title: 'title',
+  content: 'content',
+  subreddit: 'subreddit_name',
+  author: 'author_username',
+  author_karma: 'author_karma',
+  score: 'score',
+  upvotes: 'upvotes',
+  downvotes: 'downvotes',
+  comment_count: 'comment_count',
+  created_utc: 'created_utc',
+  url: 'url',
+  relevance: 'relevance',
+};
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'reddit_id', 'title', 'subreddit', 'author', 'score', 'comment_count', 'created_utc', 'url',
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/**
+ * Quote a CSV field when it contains a delimiter, a quote or a line break (RFC 4180).
+ * Text starting like a formula is prefixed with ' so spreadsheets show it instead of evaluating it.
+ */
+const csvField = (value: any): string => {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Numbers are left alone, a negative score is not a formula
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+class ExportService {
+  /**
+   * Stream every post matching a search in the given format, rows are never all held in memory
+   */
+  stream(searchQuery: SearchQuery, format: ExportFormat, columns: string[]): Readable {
+    return Readable.from(this.generate(searchQuery, format, columns));
+  }
+
+  private async *generate(searchQuery: SearchQuery, format: ExportFormat, columns: string[]): AsyncGenerator<string> {
+    const pick = (row: SearchResult): Record<string, any> => {
+      const picked: Record<string, any> = {};
+      columns.forEach(column => {
+        picked[column] = row[EXPORT_COLUMNS[column]] ?? null;
+      });
+      return picked;
+    };
+
+    let first = true;
+
+    if (format === 'csv') yield `${columns.map(csvField).join(',')}\r\n`;
+    if (format === 'json') yield '[';
+
+    for await (const rows of PostModel.streamSearch(searchQuery)) {
+      switch (format) {
+        case 'csv':
+          yield rows.map(row => `${columns.map(column => csvField(row[EXPORT_COLUMNS[column]])).join(',')}\r\n`).join('');
+          break;
+        case 'ndjson':
+          yield rows.map(row => `${JSON.stringify(pick(row))}\n`).join('');
+          break;
+        case 'json':
+          yield rows.map(row => {
+            const separator = first ? '' : ',';
+            first = false;
+            return `${separator}\n${JSON.stringify(pick(row))}`;
+          }).join('');
+          break;
+      }
+    }
+
+    if (format === 'json') yield '\n]\n';
+  }
+}
+
+export default new ExportService();
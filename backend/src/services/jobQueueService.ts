@@ -0,0 +1,327 @@
+import { randomUUID } from 'crypto';
+import etlService from './etlService';
+import redditRateLimiter from './redditRateLimiter';
+import redisClient from '../utils/redis';
+import { EtlJob, EtlJobTarget, EtlJobType, SyncResult } from '../types';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const QUEUE_KEY = 'etl:jobs:queue';
+// Jobs taken by a worker stay here until they finish, so a crashed worker does not lose them
+const PROCESSING_KEY = 'etl:jobs:processing';
+const JOB_TTL = 7 * 24 * 3600; // Keep job status for a week
+
+// Moves the next job to the processing list and takes its lease in one step,
+// so a sweep never sees a claimed job without a lease. Returns the job ID or nil.
+const CLAIM_SCRIPT = `
+local id = redis.call('LMOVE', KEYS[1], KEYS[2], 'RIGHT', 'LEFT')
+if not id then return false end
+redis.call('SET', ARGV[1] .. id .. ARGV[2], ARGV[3], 'EX', ARGV[4])
+return id
+`;
+
+// Removes a job from the processing list only if its lease expired. Returns 1 if removed.
+const RELEASE_STALE_SCRIPT = `
+if redis.call('EXISTS', KEYS[2]) == 1 then return 0 end
+return redis.call('LREM', KEYS[1], 1, ARGV[1])
+`;
+
+class JobQueueService {
+  private timer: NodeJS.Timeout | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private processing: boolean = false;
+  private readonly POLL_INTERVAL = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000');
+  private readonly LEASE_TTL = parseInt(process.env.JOB_LEASE_TTL_SECONDS || '60');
+
+  /**
+   * Start consuming the queue, and re-queue the jobs of stopped workers once per lease TTL
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const sweep = () => this.requeueStale().catch(error => {
+      console.error('❌ Failed to re-queue stale ETL jobs:', error.message);
+    });
+    sweep();
+
+    this.timer = setInterval(() => this.processNext(), this.POLL_INTERVAL);
+    this.sweepTimer = setInterval(sweep, this.LEASE_TTL * 1000);
+    console.log('📥 ETL job worker started');
+  }
+
+  /**
+   * Stop consuming the queue
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Create a job and push it to the queue
+   */
+  async enqueue(type: EtlJobType, params: Record<string, any>): Promise<EtlJob> {
+    const targetNames: string[] = type === 'batch-sync'
+      ? params.subreddits
+      : [type === 'sync-search' ? params.query : params.subreddit];
+
+    const targets: Record<string, EtlJobTarget> = {};
+    targetNames.forEach(name => {
+      targets[name] = { status: 'pending', postsCount: 0, errors: [] };
+    });
+
+    const job: EtlJob = {
+      id: randomUUID(),
+      type,
+      params,
+      status: 'queued',
+      targets,
+      attempts: 1,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.saveJob(job);
+    await redisClient.lPush(QUEUE_KEY, job.id);
+
+    console.log(`📥 Queued ${type} job ${job.id}`);
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(id: string): Promise<EtlJob | null> {
+    const raw = await redisClient.get(this.jobKey(id));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cancelled at once, running jobs stop before their next target.
+   */
+  async cancel(id: string): Promise<EtlJob | null> {
+    const job = await this.getJob(id);
+    if (!job) return null;
+
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return job;
+    }
+
+    // The flag also covers a worker that popped the job while we were cancelling it
+    await redisClient.setEx(this.cancelKey(id), JOB_TTL, '1');
+
+    if (job.status === 'queued') {
+      await redisClient.lRem(QUEUE_KEY, 0, id);
+      this.finishJob(job, 'cancelled');
+      await this.saveJob(job);
+    }
+
+    return job;
+  }
+
+  /**
+   * Re-queue a failed or cancelled job, only targets that did not succeed are run again
+   */
+  async retry(id: string): Promise<EtlJob | null> {
+    const job = await this.getJob(id);
+    if (!job) return null;
+
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      throw new Error(`Only failed or cancelled jobs can be retried (job is ${job.status})`);
+    }
+
+    Object.values(job.targets).forEach(target => {
+      if (target.status !== 'success') {
+        target.status = 'pending';
+        target.errors = [];
+      }
+    });
+    job.status = 'queued';
+    job.attempts++;
+    job.error = undefined;
+    job.finishedAt = undefined;
+
+    await redisClient.del(this.cancelKey(id));
+    await this.saveJob(job);
+    await redisClient.lPush(QUEUE_KEY, job.id);
+
+    console.log(`🔁 Re-queued job ${job.id} (attempt ${job.attempts})`);
+    return job;
+  }
+
+  /**
+   * Move the next job to the processing list and run it, it leaves the list once finished
+   */
+  private async processNext(): Promise<void> {
+    // One job at a time per instance, the Reddit rate limit is the bottleneck anyway
+    if (this.processing) return;
+    this.processing = true;
+
+    let id: string | null = null;
+    let heartbeat: NodeJS.Timeout | null = null;
+
+    try {
+      // The lease tells other instances this job is alive, it expires if this process dies
+      id = (await redisClient.eval(CLAIM_SCRIPT, {
+        keys: [QUEUE_KEY, PROCESSING_KEY],
+        // Prefix and suffix of leaseKey(), the job ID is only known inside the script
+        arguments: ['etl:job:', ':lease', String(process.pid), String(this.LEASE_TTL)],
+      })) as string | null;
+      if (!id) return;
+
+      const leaseKey = this.leaseKey(id);
+      heartbeat = setInterval(() => {
+        redisClient.expire(leaseKey, this.LEASE_TTL).catch(() => undefined);
+      }, (this.LEASE_TTL * 1000) / 3);
+
+      const job = await this.getJob(id);
+      if (!job || job.status !== 'queued') return;
+
+      // Queued jobs wait behind API requests for the Reddit budget
+      await redditRateLimiter.runWithPriority('background', () => this.runJob(job));
+    } catch (error: any) {
+      console.error('❌ ETL job worker error:', error.message);
+    } finally {
+      if (heartbeat) clearInterval(heartbeat);
+      if (id) {
+        await redisClient.lRem(PROCESSING_KEY, 1, id).catch(() => undefined);
+        await redisClient.del(this.leaseKey(id)).catch(() => undefined);
+      }
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Put back on the queue the jobs of the processing list whose worker stopped renewing its lease.
+   * Targets that already succeeded are not run again.
+   */
+  private async requeueStale(): Promise<void> {
+    const ids = await redisClient.lRange(PROCESSING_KEY, 0, -1);
+
+    for (const id of ids) {
+      // Skipped if still leased, or already finished or re-queued by another instance
+      const removed = await redisClient.eval(RELEASE_STALE_SCRIPT, {
+        keys: [PROCESSING_KEY, this.leaseKey(id)],
+        arguments: [id],
+      });
+      if (removed !== 1) continue;
+
+      const job = await this.getJob(id);
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) continue;
+
+      Object.values(job.targets).forEach(target => {
+        if (target.status === 'running') target.status = 'pending';
+      });
+      job.status = 'queued';
+      await this.saveJob(job);
+      // Right end, so it runs before jobs queued since
+      await redisClient.rPush(QUEUE_KEY, id);
+
+      console.log(`♻️  Re-queued job ${id} left running by a stopped worker`);
+    }
+  }
+
+  /**
+   * Run every pending target of a job, saving progress after each one
+   */
+  private async runJob(job: EtlJob): Promise<void> {
+    console.log(`⚙️  Running ${job.type} job ${job.id}`);
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    await this.saveJob(job);
+
+    try {
+      for (const [name, target] of Object.entries(job.targets)) {
+        if (target.status === 'success') continue;
+
+        if (await redisClient.get(this.cancelKey(job.id))) {
+          this.finishJob(job, 'cancelled');
+          await this.saveJob(job);
+          console.log(`🛑 Job ${job.id} cancelled`);
+          return;
+        }
+
+        target.status = 'running';
+        await this.saveJob(job);
+
+        const result = await this.runTarget(job, name);
+
+        target.status = result.success ? 'success' : 'failed';
+        target.postsCount = result.postsCount;
+        target.commentsCount = result.commentsCount;
+        target.errors = result.errors;
+        await this.saveJob(job);
+      }
+
+      const failed = Object.values(job.targets).some(target => target.status === 'failed');
+      this.finishJob(job, failed ? 'failed' : 'completed');
+    } catch (error: any) {
+      job.error = error.message;
+      this.finishJob(job, 'failed');
+    }
+
+    await this.saveJob(job);
+    console.log(`✅ Job ${job.id} ${job.status}`);
+  }
+
+  /**
+   * Dispatch a single target to the ETL service
+   */
+  private async runTarget(job: EtlJob, name: string): Promise<SyncResult> {
+    const params = job.params;
+
+    switch (job.type) {
+      case 'sync-subreddit':
+        return etlService.syncSubreddit(
+          params.subreddit,
+          params.limit,
+          params.timeFilter,
+          params.sort,
+          { mode: params.mode, commentsForTopPosts: params.commentsForTopPosts }
+        );
+      case 'sync-search':
+        return etlService.syncSearchResults(params.query, params.subreddit, params.limit);
+      case 'batch-sync':
+        return etlService.syncSubreddit(name, params.limit);
+    }
+  }
+
+  /**
+   * Mark a job as finished, pending targets inherit a cancellation
+   */
+  private finishJob(job: EtlJob, status: 'completed' | 'failed' | 'cancelled'): void {
+    if (status === 'cancelled') {
+      Object.values(job.targets).forEach(target => {
+        if (target.status === 'pending') target.status = 'cancelled';
+      });
+    }
+
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+  }
+
+  private async saveJob(job: EtlJob): Promise<void> {
+    await redisClient.setEx(this.jobKey(job.id), JOB_TTL, JSON.stringify(job));
+  }
+
+  private jobKey(id: string): string {
+    return `etl:job:${id}`;
+  }
+
+  private leaseKey(id: string): string {
+    return `etl:job:${id}:lease`;
+  }
+
+  private cancelKey(id: string): string {
+    return `etl:job:${id}:cancel`;
+  }
+}
+
+export default new JobQueueService();
@@ -0,0 +1,133 @@
+import redisClient from '../utils/redis';
+import { DailyUsage, QuotaCategory, RateLimitDecision } from '../types';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const WINDOW_MS = 60000;
+const USAGE_RETENTION_DAYS = 31;
+
+// Counts the request in the per-minute window, then in the daily quota of its category.
+// Runs as one script so concurrent requests of a client on several instances cannot overshoot.
+// Returns {allowed, reason (0 ok, 1 rate limit, 2 quota), window count, window TTL in ms, quota used}.
+const CONSUME_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then redis.call('PEXPIRE', KEYS[1], ARGV[2]) end
+local ttl = redis.call('PTTL', KEYS[1])
+local used = 0
+
+local function reject(reason)
+  redis.call('HINCRBY', KEYS[2], 'rejected', 1)
+  redis.call('EXPIRE', KEYS[2], ARGV[5])
+  return {0, reason, count, ttl, used}
+end
+
+if tonumber(ARGV[1]) > 0 and count > tonumber(ARGV[1]) then return reject(1) end
+
+if ARGV[3] ~= '' then
+  used = tonumber(redis.call('HGET', KEYS[2], ARGV[3]) or '0')
+  if tonumber(ARGV[4]) > 0 and used >= tonumber(ARGV[4]) then return reject(2) end
+  used = redis.call('HINCRBY', KEYS[2], ARGV[3], 1)
+end
+
+redis.call('HINCRBY', KEYS[2], 'requests', 1)
+redis.call('EXPIRE', KEYS[2], ARGV[5])
+return {1, 0, count, ttl, used}
+`;
+
+class RateLimitService {
+  // 0 disables a limit
+  private readonly PER_MINUTE = parseInt(process.env.API_RATE_LIMIT_PER_MINUTE || '120');
+  private readonly QUOTAS: Record<QuotaCategory, number> = {
+    etl: parseInt(process.env.API_QUOTA_ETL_PER_DAY || '100'),
+    search: parseInt(process.env.API_QUOTA_SEARCH_PER_DAY || '5000'),
+  };
+
+  /**
+   * Count a request of a client (API key, user or IP) and decide whether it may proceed
+   */
+  async consume(subject: string, category?: QuotaCategory): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const quotaLimit = category ? this.QUOTAS[category] : 0;
+
+    const [allowed, reason, count, ttl, used] = (await redisClient.eval(CONSUME_SCRIPT, {
+      keys: [`ratelimit:${subject}`, this.usageKey(subject, this.day(now))],
+      arguments: [
+        String(this.PER_MINUTE),
+        String(WINDOW_MS),
+        category || '',
+        String(quotaLimit),
+        String(USAGE_RETENTION_DAYS * 86400),
+      ],
+    })) as number[];
+
+    const windowResetMs = ttl > 0 ? ttl : WINDOW_MS;
+    const decision: RateLimitDecision = {
+      allowed: allowed === 1,
+      limit: this.PER_MINUTE,
+      remaining: Math.max(this.PER_MINUTE - count, 0),
+      resetAt: Math.ceil((now + windowResetMs) / 1000),
+      ...(category && {
+        category,
+        quotaLimit,
+        quotaRemaining: Math.max(quotaLimit - used, 0),
+      }),
+    };
+
+    if (reason === 1) {
+      decision.reason = 'rate_limit';
+      decision.retryAfter = Math.ceil(windowResetMs / 1000);
+    } else if (reason === 2) {
+      decision.reason = 'quota';
+      decision.retryAfter = Math.ceil((this.nextDayStart(now) - now) / 1000);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Daily usage of a client over the last days, oldest first
+   */
+  async getUsage(subject: string, days: number): Promise<DailyUsage[]> {
+    const dates = Array.from({ length: days }, (_, index) => this.day(Date.now() - (days - 1 - index) * 86400000));
+
+    const multi = redisClient.multi();
+    dates.forEach(date => multi.hGetAll(this.usageKey(subject, date)));
+    const counters = (await multi.exec()) as unknown as Record<string, string>[];
+
+    return dates.map((date, index) => {
+      const counter = counters[index] || {};
+      return {
+        date,
+        requests: parseInt(counter.requests || '0'),
+        etl: parseInt(counter.etl || '0'),
+        search: parseInt(counter.search || '0'),
+        rejected: parseInt(counter.rejected || '0'),
+      };
+    });
+  }
+
+  getLimits(): { perMinute: number; etlPerDay: number; searchPerDay: number } {
+    return {
+      perMinute: this.PER_MINUTE,
+      etlPerDay: this.QUOTAS.etl,
+      searchPerDay: this.QUOTAS.search,
+    };
+  }
+
+  private usageKey(subject: string, day: string): string {
+    return `usage:${subject}:${day}`;
+  }
+
+  // Quotas reset at midnight UTC
+  private day(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+  }
+
+  private nextDayStart(timestamp: number): number {
+    const date = new Date(timestamp);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  }
+}
+
+export default new RateLimitService();
@@ -0,0 +1,89 @@
+import { publish, subscribe } from '../utils/redis';
+import { LivePost, LivePostFilter } from '../types';
+
+const CHANNEL = 'posts:new';
+
+interface Subscriber {
+  filter: LivePostFilter;
+  send: (post: LivePost) => void;
+}
+
+class RealtimeService {
+  private subscribers = new Set<Subscriber>();
+  private unsubscribe: Promise<() => Promise<void>> | null = null;
+
+  /**
+   * Announce a newly stored post to every API instance
+   */
+  async publishPost(post: LivePost): Promise<void> {
+    await publish(CHANNEL, post);
+  }
+
+  /**
+   * Register a client, it receives the new posts matching its filter until the returned function is called.
+   * Each instance holds a single Redis subscription and fans messages out to its own clients.
+   */
+  async addSubscriber(filter: LivePostFilter, send: (post: LivePost) => void): Promise<() => Promise<void>> {
+    const subscriber: Subscriber = {
+      filter: {
+        ...filter,
+        subreddits: filter.subreddits?.map(name => name.toLowerCase()),
+        keywords: filter.keywords?.map(keyword => keyword.toLowerCase()),
+      },
+      send,
+    };
+    this.subscribers.add(subscriber);
+
+    if (!this.unsubscribe) {
+      this.unsubscribe = subscribe(CHANNEL, (post: LivePost) => this.dispatch(post));
+    }
+
+    try {
+      await this.unsubscribe;
+    } catch (error) {
+      this.unsubscribe = null;
+      this.subscribers.delete(subscriber);
+      throw error;
+    }
+
+    return async () => {
+      this.subscribers.delete(subscriber);
+
+      if (this.subscribers.size === 0 && this.unsubscribe) {
+        const unsubscribe = this.unsubscribe;
+        this.unsubscribe = null;
+        await (await unsubscribe)();
+      }
+    };
+  }
+
+  /**
+   * Send a post to the local clients whose filter it matches
+   */
+  private dispatch(post: LivePost): void {
+    this.subscribers.forEach(subscriber => {
+      if (this.matches(post, subscriber.filter)) {
+        subscriber.send(post);
+      }
+    });
+  }
+
+  private matches(post: LivePost, filter: LivePostFilter): boolean {
+    if (filter.subreddits && filter.subreddits.length > 0 && !filter.subreddits.includes(post.subreddit.toLowerCase())) {
+      return false;
+    }
+
+    if (filter.minScore !== undefined && post.score < filter.minScore) {
+      return false;
+    }
+
+    if (filter.keywords && filter.keywords.length > 0) {
+      const text = `${post.title} ${post.content || ''}`.toLowerCase();
+      return filter.keywords.some(keyword => text.includes(keyword));
+    }
+
+    return true;
+  }
+}
+
+export default new RealtimeService();
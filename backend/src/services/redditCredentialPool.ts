@@ -0,0 +1,340 @@
+import axios from 'axios';
+import redditRateLimiter, { RateLimitBucket } from './redditRateLimiter';
+import {
+  RedditCredentialConfig,
+  RedditCredentialLease,
+  RedditCredentialStatus,
+  RedditGrantType,
+} from '../types';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+interface RedditAuthResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+interface CredentialState {
+  config: RedditCredentialConfig;
+  accessToken: string | null;
+  tokenExpiry: number;
+  // Concurrent requests share one token request
+  pendingToken: Promise<string> | null;
+  consecutiveFailures: number;
+  disabledUntil: number;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+}
+
+const GRANTS: RedditGrantType[] = ['client_credentials', 'password', 'refresh_token'];
+
+/**
+ * Pool of Reddit OAuth credentials. Each one has its own access token and its own
+ * rate limit bucket, requests are spread across the healthy ones and a credential
+ * leaves the rotation for a while after repeated 401/403 errors.
+ */
+class RedditCredentialPool {
+  private readonly RATE_LIMIT = parseInt(process.env.REDDIT_RATE_LIMIT_PER_MINUTE || '30');
+  private readonly MAX_FAILURES = parseInt(process.env.REDDIT_CREDENTIAL_MAX_FAILURES || '3');
+  private readonly DISABLE_DURATION = parseInt(process.env.REDDIT_CREDENTIAL_DISABLE_MS || '900000');
+  private readonly USER_AGENT = process.env.REDDIT_USER_AGENT || 'RedditAnalyzer/1.0';
+
+  private states: Map<string, CredentialState> | null = null;
+  private nextIndex: number = 0;
+
+  /**
+   * Pick a credential with rate limit budget left and return it with a valid access token
+   */
+  async acquire(): Promise<RedditCredentialLease> {
+    const states = this.getStates();
+    if (states.size === 0) {
+      throw new Error('Reddit API credentials not configured. Please set REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET, or REDDIT_CREDENTIALS, in .env');
+    }
+
+    // Credentials failing to authenticate are left out for the rest of this call
+    const failed = new Set<string>();
+    let lastError: any;
+
+    while (true) {
+      // Authenticate before taking budget, so a credential that cannot authenticate uses none
+      for (const state of this.available(failed)) {
+        try {
+          await this.getToken(state);
+        } catch (error: any) {
+          failed.add(state.config.name);
+          lastError = error;
+        }
+      }
+      if (this.available(failed).length === 0) throw lastError;
+
+      const name = await redditRateLimiter.acquire(() => this.rotation(failed));
+      const state = states.get(name)!;
+
+      try {
+        // Usually cached, unless the token expired or was revoked while waiting for budget
+        return {
+          credential: name,
+          token: await this.getToken(state),
+          userAgent: state.config.userAgent || this.USER_AGENT,
+        };
+      } catch (error: any) {
+        failed.add(name);
+        lastError = error;
+      }
+    }
+  }
+
+  /**
+   * Record a successful response and share its rate limit headers
+   */
+  async recordSuccess(lease: RedditCredentialLease, headers: any): Promise<void> {
+    const state = this.getStates().get(lease.credential);
+    if (state) {
+      state.consecutiveFailures = 0;
+      state.lastSuccessAt = Date.now();
+    }
+
+    await redditRateLimiter.updateFromHeaders(lease.credential, headers);
+  }
+
+  /**
+   * Record a failed request. 401s and 403s that are not about the resource count towards
+   * taking the credential out of rotation, 429s update its rate limit state.
+   */
+  async recordFailure(lease: RedditCredentialLease, error: any): Promise<void> {
+    const status = error.response?.status;
+
+    if (status === 429) {
+      await redditRateLimiter.updateFromHeaders(lease.credential, error.response.headers);
+      return;
+    }
+
+    // Private, quarantined and banned subreddits answer 403 with a reason
+    if (status === 401 || (status === 403 && !error.response?.data?.reason)) {
+      const state = this.getStates().get(lease.credential);
+      if (!state) return;
+
+      if (status === 401) {
+        // The token may have been revoked, get a new one next time
+        state.accessToken = null;
+      }
+      this.markFailure(state, `HTTP ${status} on ${error.config?.url || 'request'}`);
+    }
+  }
+
+  /**
+   * Status of every credential, with its shared rate limit budget
+   */
+  async getStatus(): Promise<RedditCredentialStatus[]> {
+    const now = Date.now();
+
+    return Promise.all([...this.getStates().values()].map(async state => ({
+      name: state.config.name,
+      grant: state.config.grant,
+      status: state.disabledUntil > now ? 'disabled' as const : 'healthy' as const,
+      consecutiveFailures: state.consecutiveFailures,
+      lastError: state.lastError,
+      lastSuccessAt: state.lastSuccessAt ? new Date(state.lastSuccessAt).toISOString() : null,
+      disabledUntil: state.disabledUntil > now ? new Date(state.disabledUntil).toISOString() : null,
+      rateLimit: await redditRateLimiter.getStatus(this.bucket(state)),
+    })));
+  }
+
+  /**
+   * Healthy credentials not in `excluded`, starting one further at each call so requests are spread
+   */
+  private rotation(excluded: Set<string>): RateLimitBucket[] {
+    const candidates = this.available(excluded);
+    const start = this.nextIndex++ % Math.max(candidates.length, 1);
+    return [...candidates.slice(start), ...candidates.slice(0, start)].map(state => this.bucket(state));
+  }
+
+  /**
+   * Healthy credentials not in `excluded`, throws when every credential is out of rotation
+   */
+  private available(excluded: Set<string>): CredentialState[] {
+    const now = Date.now();
+    const healthy = [...this.getStates().values()].filter(state => state.disabledUntil <= now);
+
+    if (healthy.length === 0) {
+      const nextRetry = Math.min(...[...this.getStates().values()].map(state => state.disabledUntil));
+      throw new Error(`All Reddit credentials are out of rotation after repeated auth errors, next retry in ${Math.ceil((nextRetry - now) / 1000)}s`);
+    }
+
+    return healthy.filter(state => !excluded.has(state.config.name));
+  }
+
+  private bucket(state: CredentialState): RateLimitBucket {
+    return {
+      name: state.config.name,
+      capacity: state.config.rateLimitPerMinute || this.RATE_LIMIT,
+    };
+  }
+
+  /**
+   * Get the cached access token of a credential or request a new one
+   */
+  private async getToken(state: CredentialState): Promise<string> {
+    if (state.accessToken && Date.now() < state.tokenExpiry) {
+      return state.accessToken;
+    }
+
+    if (!state.pendingToken) {
+      state.pendingToken = this.requestToken(state).finally(() => {
+        state.pendingToken = null;
+      });
+    }
+
+    return state.pendingToken;
+  }
+
+  private async requestToken(state: CredentialState): Promise<string> {
+    const { config } = state;
+    const body = new URLSearchParams({ grant_type: config.grant });
+
+    if (config.grant === 'password') {
+      body.set('username', config.username!);
+      body.set('password', config.password!);
+    } else if (config.grant === 'refresh_token') {
+      body.set('refresh_token', config.refreshToken!);
+    }
+
+    try {
+      const response = await axios.post<RedditAuthResponse & { error?: string }>(
+        'https://www.reddit.com/api/v1/access_token',
+        body.toString(),
+        {
+          auth: {
+            username: config.clientId,
+            password: config.clientSecret,
+          },
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'User-Agent': config.userAgent || this.USER_AGENT,
+          },
+        }
+      );
+
+      // Reddit answers a rejected password or refresh token with HTTP 200 and an error field
+      if (response.data.error || !response.data.access_token) {
+        throw Object.assign(new Error(response.data.error || 'no access token'), { grantError: true });
+      }
+
+      state.accessToken = response.data.access_token;
+      state.tokenExpiry = Date.now() + (response.data.expires_in * 1000) - 60000; // 1 min buffer
+
+      console.log(`✅ Reddit API authenticated with credential "${config.name}" (${config.grant})`);
+      return state.accessToken;
+    } catch (error: any) {
+      const status = error.response?.status;
+      console.error(`Reddit authentication failed for credential "${config.name}":`, error.response?.data || error.message);
+
+      if (error.grantError || status === 400 || status === 401 || status === 403) {
+        this.markFailure(state, `Authentication failed: ${error.response?.data?.error || error.message}`);
+      }
+
+      throw new Error(`Failed to authenticate with Reddit API using credential "${config.name}"`);
+    }
+  }
+
+  private markFailure(state: CredentialState, message: string): void {
+    state.consecutiveFailures++;
+    state.lastError = message;
+
+    // A credential coming back after being disabled is disabled again on its first failure
+    if (state.consecutiveFailures >= this.MAX_FAILURES) {
+      state.disabledUntil = Date.now() + this.DISABLE_DURATION;
+      console.error(`🚫 Reddit credential "${state.config.name}" out of rotation for ${this.DISABLE_DURATION / 1000}s: ${message}`);
+    }
+  }
+
+  /**
+   * Credentials from REDDIT_CREDENTIALS (JSON array), or the single REDDIT_CLIENT_ID/REDDIT_CLIENT_SECRET pair
+   */
+  private getStates(): Map<string, CredentialState> {
+    if (this.states) return this.states;
+
+    const states = new Map<string, CredentialState>();
+    this.loadConfigs().forEach(config => {
+      if (states.has(config.name)) {
+        throw new Error(`Duplicate Reddit credential name "${config.name}" in REDDIT_CREDENTIALS`);
+      }
+
+      states.set(config.name, {
+        config,
+        accessToken: null,
+        tokenExpiry: 0,
+        pendingToken: null,
+        consecutiveFailures: 0,
+        disabledUntil: 0,
+        lastError: null,
+        lastSuccessAt: null,
+      });
+    });
+
+    this.states = states;
+    return states;
+  }
+
+  private loadConfigs(): RedditCredentialConfig[] {
+    if (!process.env.REDDIT_CREDENTIALS) {
+      const clientId = process.env.REDDIT_CLIENT_ID;
+      const clientSecret = process.env.REDDIT_CLIENT_SECRET;
+      if (!clientId || !clientSecret) return [];
+
+      const grant: RedditGrantType = process.env.REDDIT_REFRESH_TOKEN
+        ? 'refresh_token'
+        : process.env.REDDIT_USERNAME ? 'password' : 'client_credentials';
+
+      return [this.validateConfig({
+        name: 'default',
+        clientId,
+        clientSecret,
+        grant,
+        username: process.env.REDDIT_USERNAME,
+        password: process.env.REDDIT_PASSWORD,
+        refreshToken: process.env.REDDIT_REFRESH_TOKEN,
+      }, 0)];
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(process.env.REDDIT_CREDENTIALS);
+    } catch {
+      throw new Error('REDDIT_CREDENTIALS must be a JSON array of credentials');
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error('REDDIT_CREDENTIALS must be a JSON array of credentials');
+    }
+
+    return parsed.map((config: any, index: number) => this.validateConfig({
+      ...config,
+      name: config.name || `credential-${index + 1}`,
+      grant: config.grant || 'client_credentials',
+    }, index));
+  }
+
+  private validateConfig(config: RedditCredentialConfig, index: number): RedditCredentialConfig {
+    const label = `Reddit credential "${config.name}" (#${index + 1})`;
+
+    if (!config.clientId || !config.clientSecret) {
+      throw new Error(`${label} needs a clientId and a clientSecret`);
+    }
+    if (!GRANTS.includes(config.grant)) {
+      throw new Error(`${label} has an unknown grant "${config.grant}", expected one of ${GRANTS.join(', ')}`);
+    }
+    if (config.grant === 'password' && (!config.username || !config.password)) {
+      throw new Error(`${label} uses the password grant and needs a username and a password`);
+    }
+    if (config.grant === 'refresh_token' && !config.refreshToken) {
+      throw new Error(`${label} uses the refresh_token grant and needs a refreshToken`);
+    }
+
+    return config;
+  }
+}
+
+export default new RedditCredentialPool();
@@ -0,0 +1,202 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import redisClient from '../utils/redis';
+import { RedditRateLimitStatus, RedditRequestPriority } from '../types';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Interactive callers currently waiting on any credential, scored by the time their registration expires
+const WAITERS_KEY = 'reddit:ratelimit:interactive';
+const MAX_POLL_MS = 1000;
+
+// Takes a token from the shared bucket, or tells the caller how long to wait.
+// Redis time is used so processes on different hosts agree on the clock.
+// Background callers leave RESERVE tokens (and RESERVE requests of Reddit's own budget)
+// to interactive ones, and yield while an interactive caller is waiting. The reserve is
+// capped below the capacity, otherwise a small bucket would never serve background callers.
+// Returns {acquired, wait in ms}.
+const ACQUIRE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local capacity = tonumber(ARGV[1])
+local refill = capacity / 60000
+local minInterval = tonumber(ARGV[2])
+local interactive = ARGV[3] == 'interactive'
+local reserve = math.max(0, math.min(tonumber(ARGV[4]), capacity - 1))
+local waiter = ARGV[5]
+
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at', 'last_request_at', 'remaining', 'reset_at')
+local tokens = tonumber(state[1]) or capacity
+local updated = tonumber(state[2]) or now
+local last = tonumber(state[3]) or 0
+local remaining = tonumber(state[4])
+local resetAt = tonumber(state[5]) or 0
+tokens = math.min(capacity, tokens + math.max(0, now - updated) * refill)
+
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now)
+
+local needed = 1
+if not interactive then needed = 1 + reserve end
+
+local wait = 0
+if remaining and resetAt > now and remaining < needed then wait = resetAt - now end
+if tokens < needed then wait = math.max(wait, math.ceil((needed - tokens) / refill)) end
+if now - last < minInterval then wait = math.max(wait, minInterval - (now - last)) end
+if not interactive and redis.call('ZCARD', KEYS[2]) > 0 then wait = math.max(wait, minInterval, 250) end
+
+if wait > 0 then
+  if interactive then redis.call('ZADD', KEYS[2], now + wait + 5000, waiter) end
+  return {0, math.ceil(wait)}
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens - 1), 'updated_at', now, 'last_request_at', now)
+if remaining and resetAt > now then redis.call('HSET', KEYS[1], 'remaining', tostring(remaining - 1)) end
+if interactive then redis.call('ZREM', KEYS[2], waiter) end
+return {1, 0}
+`;
+
+// Records Reddit's X-Ratelimit-* headers, X-Ratelimit-Reset is in seconds from now
+const UPDATE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('HSET', KEYS[1], 'remaining', ARGV[1], 'reset_at', now + tonumber(ARGV[2]) * 1000)
+return 1
+`;
+
+// A rate limit budget, one per Reddit credential
+export interface RateLimitBucket {
+  name: string;
+  // Requests per minute
+  capacity: number;
+}
+
+/**
+ * Reddit request budgets shared by every API and worker process through Redis. Each bucket has
+ * a token bucket refilled at its capacity per minute, a minimum interval between requests,
+ * and the remaining budget Reddit reports in its response headers.
+ */
+class RedditRateLimiter {
+  private readonly MIN_REQUEST_INTERVAL = parseInt(process.env.REDDIT_MIN_REQUEST_INTERVAL_MS || '2000');
+  private readonly INTERACTIVE_RESERVE = parseInt(process.env.REDDIT_INTERACTIVE_RESERVE || '5');
+
+  private priority = new AsyncLocalStorage<RedditRequestPriority>();
+  // Only used while Redis is unreachable
+  private lastLocalRequestTime: number = 0;
+
+  /**
+   * Run a function with a request priority, Reddit calls made inside it wait with that priority.
+   * Calls made outside are interactive.
+   */
+  runWithPriority<T>(priority: RedditRequestPriority, fn: () => Promise<T>): Promise<T> {
+    return this.priority.run(priority, fn);
+  }
+
+  /**
+   * Wait until this process may send a request to Reddit, returns the bucket the request is counted against.
+   * Buckets are tried in the order given, candidates is called again on every attempt.
+   */
+  async acquire(candidates: () => RateLimitBucket[]): Promise<string> {
+    const priority = this.priority.getStore() || 'interactive';
+    const waiter = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+    let logged = false;
+
+    while (true) {
+      const buckets = candidates();
+      if (buckets.length === 0) {
+        throw new Error('No Reddit credential available to send the request');
+      }
+      let shortestWait = Infinity;
+
+      for (const bucket of buckets) {
+        let acquired: number;
+        let wait: number;
+
+        try {
+          [acquired, wait] = (await redisClient.eval(ACQUIRE_SCRIPT, {
+            keys: [this.stateKey(bucket.name), WAITERS_KEY],
+            arguments: [
+              String(bucket.capacity),
+              String(this.MIN_REQUEST_INTERVAL),
+              priority,
+              String(this.INTERACTIVE_RESERVE),
+              waiter,
+            ],
+          })) as number[];
+        } catch (error: any) {
+          console.error('Reddit rate limiter unavailable, throttling locally:', error.message);
+          await this.waitLocally();
+          return bucket.name;
+        }
+
+        if (acquired === 1) return bucket.name;
+        shortestWait = Math.min(shortestWait, wait);
+      }
+
+      if (!logged && shortestWait >= MAX_POLL_MS) {
+        console.log(`⏳ Reddit rate limit reached, ${priority} request waiting ~${Math.ceil(shortestWait / 1000)}s...`);
+        logged = true;
+      }
+
+      // Poll rather than sleep the whole wait, another process may release budget or an interactive caller may queue
+      await new Promise(resolve => setTimeout(resolve, Math.min(shortestWait, MAX_POLL_MS)));
+    }
+  }
+
+  /**
+   * Share Reddit's X-Ratelimit-* response headers of a bucket with every process
+   */
+  async updateFromHeaders(bucket: string, headers: any): Promise<void> {
+    const remaining = parseFloat(headers['x-ratelimit-remaining']);
+    const reset = parseInt(headers['x-ratelimit-reset']);
+    if (isNaN(remaining) || isNaN(reset)) return;
+
+    try {
+      await redisClient.eval(UPDATE_SCRIPT, {
+        keys: [this.stateKey(bucket)],
+        arguments: [String(remaining), String(reset)],
+      });
+    } catch (error: any) {
+      console.error('Reddit rate limiter update error:', error.message);
+    }
+  }
+
+  /**
+   * Shared budget of a bucket as seen by this process
+   */
+  async getStatus(bucket: RateLimitBucket): Promise<RedditRateLimitStatus> {
+    const now = Date.now();
+    const [state, interactiveWaiting] = await Promise.all([
+      redisClient.hGetAll(this.stateKey(bucket.name)),
+      redisClient.zCount(WAITERS_KEY, now, '+inf'),
+    ]);
+
+    const updatedAt = parseInt(state.updated_at || String(now));
+    const tokens = state.tokens === undefined
+      ? bucket.capacity
+      : Math.min(bucket.capacity, parseFloat(state.tokens) + Math.max(0, now - updatedAt) * bucket.capacity / 60000);
+    const resetAt = parseInt(state.reset_at || '0');
+
+    return {
+      limit: bucket.capacity,
+      available: Math.floor(tokens),
+      interactiveReserve: Math.max(0, Math.min(this.INTERACTIVE_RESERVE, bucket.capacity - 1)),
+      interactiveWaiting,
+      redditRemaining: state.remaining !== undefined && resetAt > now ? parseFloat(state.remaining) : null,
+      redditResetsIn: resetAt > now ? Math.ceil((resetAt - now) / 1000) : null,
+    };
+  }
+
+  private stateKey(bucket: string): string {
+    return `reddit:ratelimit:${bucket}`;
+  }
+
+  private async waitLocally(): Promise<void> {
+    const waitTime = this.MIN_REQUEST_INTERVAL - (Date.now() - this.lastLocalRequestTime);
+    if (waitTime > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitTime));
+    }
+    this.lastLocalRequestTime = Date.now();
+  }
+}
+
+export default new RedditRateLimiter();
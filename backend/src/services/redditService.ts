@@ -1,27 +1,22 @@
 import axios, { AxiosInstance } from 'axios';
-import { RedditPost, RedditComment } from '../types';
+import {
+  RedditPost,
+  RedditComment,
+  RedditListing,
+  RedditSubredditAbout,
+  RedditUser,
+  RedditCredentialLease,
+  RedditCredentialStatus,
+} from '../types';
 import { getCached, setCache } from '../utils/redis';
+import redditCredentialPool from './redditCredentialPool';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-interface RedditAuthResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-}
-
 class RedditService {
   private client: AxiosInstance;
-  private accessToken: string | null = null;
-  private tokenExpiry: number = 0;
-  private requestCount: number = 0;
-  private lastResetTime: number = Date.now();
-  private lastRequestTime: number = 0;
-  private redditRateLimitRemaining: number = 60;
-  private redditRateLimitReset: number = 0;
-  private readonly RATE_LIMIT = parseInt(process.env.REDDIT_RATE_LIMIT_PER_MINUTE || '30');
-  private readonly MIN_REQUEST_INTERVAL = parseInt(process.env.REDDIT_MIN_REQUEST_INTERVAL_MS || '2000');
+  private readonly PAGE_SIZE = 100; // Reddit caps listings at 100 items per page
 
   constructor() {
     this.client = axios.create({
@@ -32,131 +27,50 @@ class RedditService {
   }
 
   /**
-   * Authenticate with Reddit API
+   * Wait for the Reddit budget and pick a credential, see RedditCredentialPool
    */
-  private async authenticate(): Promise<string> {
-    const now = Date.now();
-
-    // Return cached token if still valid
-    if (this.accessToken && now < this.tokenExpiry) {
-      return this.accessToken;
-    }
-
-    const clientId = process.env.REDDIT_CLIENT_ID;
-    const clientSecret = process.env.REDDIT_CLIENT_SECRET;
-
-    if (!clientId || !clientSecret) {
-      throw new Error('Reddit API credentials not configured. Please set REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET in .env');
-    }
-
-    try {
-      const response = await axios.post<RedditAuthResponse>(
-        'https://www.reddit.com/api/v1/access_token',
-        'grant_type=client_credentials',
-        {
-          auth: {
-            username: clientId,
-            password: clientSecret,
-          },
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'User-Agent': process.env.REDDIT_USER_AGENT || 'RedditAnalyzer/1.0',
-          },
-        }
-      );
-
-      this.accessToken = response.data.access_token;
-      this.tokenExpiry = now + (response.data.expires_in * 1000) - 60000; // 1 min buffer
-
-      console.log('✅ Reddit API authenticated');
-      return this.accessToken;
-    } catch (error: any) {
-      console.error('Reddit authentication failed:', error.response?.data || error.message);
-      throw new Error('Failed to authenticate with Reddit API');
-    }
+  private async acquireCredential(): Promise<RedditCredentialLease> {
+    return redditCredentialPool.acquire();
   }
 
   /**
-   * Wait for minimum interval between requests
+   * Authorization and User-Agent headers of a credential
    */
-  private async waitForRequestInterval(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.MIN_REQUEST_INTERVAL) {
-      const waitTime = this.MIN_REQUEST_INTERVAL - timeSinceLastRequest;
-      console.log(`⏳ Waiting ${waitTime}ms between requests...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-
-    this.lastRequestTime = Date.now();
-  }
-
-  /**
-   * Rate limiting check using Reddit's X-Ratelimit headers and local tracking
-   */
-  private async checkRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceReset = now - this.lastResetTime;
-
-    // Reset counter every minute
-    if (timeSinceReset >= 60000) {
-      this.requestCount = 0;
-      this.lastResetTime = now;
-    }
-
-    // Check Reddit's rate limit info if available
-    if (this.redditRateLimitRemaining <= 1 && this.redditRateLimitReset > now) {
-      const waitTime = this.redditRateLimitReset - now;
-      console.log(`⏳ Reddit rate limit reached. Waiting ${Math.ceil(waitTime / 1000)}s...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-      this.redditRateLimitRemaining = 60;
-    }
-
-    // Wait if our local rate limit exceeded
-    if (this.requestCount >= this.RATE_LIMIT) {
-      const waitTime = 60000 - timeSinceReset;
-      console.log(`⏳ Local rate limit reached. Waiting ${Math.ceil(waitTime / 1000)}s...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-      this.requestCount = 0;
-      this.lastResetTime = Date.now();
-    }
-
-    // Always wait minimum interval between requests
-    await this.waitForRequestInterval();
-
-    this.requestCount++;
+  private authHeaders(lease: RedditCredentialLease): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${lease.token}`,
+      'User-Agent': lease.userAgent,
+    };
   }
 
   /**
    * Update rate limit info from Reddit response headers
    */
-  private updateRateLimitFromHeaders(headers: any): void {
-    if (headers['x-ratelimit-remaining']) {
-      this.redditRateLimitRemaining = parseFloat(headers['x-ratelimit-remaining']);
-    }
-    if (headers['x-ratelimit-reset']) {
-      this.redditRateLimitReset = parseInt(headers['x-ratelimit-reset']) * 1000;
-    }
-
-    console.log(`📊 Reddit rate limit: ${this.redditRateLimitRemaining} remaining, resets at ${new Date(this.redditRateLimitReset).toLocaleTimeString()}`);
+  private async updateRateLimitFromHeaders(lease: RedditCredentialLease, headers: any): Promise<void> {
+    await redditCredentialPool.recordSuccess(lease, headers);
   }
 
   /**
-   * Make request with retry on 429 errors (exponential backoff)
+   * Make request with retry on 429 errors (exponential backoff).
+   * Every attempt waits for budget and takes a new lease, so a retry may go out on another credential.
    */
   private async makeRequestWithRetry<T>(
-    requestFn: () => Promise<T>,
+    requestFn: (lease: RedditCredentialLease) => Promise<T>,
     maxRetries: number = 3
   ): Promise<T> {
     let lastError: any;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const lease = await this.acquireCredential();
+
       try {
-        return await requestFn();
+        return await requestFn(lease);
       } catch (error: any) {
         lastError = error;
 
+        // 429s back off every process using this credential, auth errors count towards its health
+        await redditCredentialPool.recordFailure(lease, error);
+
         // Handle 429 Too Many Requests
         if (error.response?.status === 429) {
           if (attempt < maxRetries) {
@@ -176,6 +90,77 @@ class RedditService {
     throw lastError;
   }
 
+  /**
+   * Fetch a listing page by page, following Reddit's `after` cursor
+   */
+  private async fetchListing(
+    url: string,
+    params: Record<string, any>,
+    limit: number,
+    stopWhen?: (post: RedditPost) => boolean
+  ): Promise<RedditListing> {
+    const posts: RedditPost[] = [];
+    const seenIds = new Set<string>();
+    let after: string | null = null;
+    let pagesFetched = 0;
+    let reachedStop = false;
+
+    while (posts.length < limit && !reachedStop) {
+      const pageLimit = Math.min(this.PAGE_SIZE, limit - posts.length);
+
+      const response = await this.makeRequestWithRetry(async lease => {
+        const pageResponse = await this.client.get(url, {
+          headers: this.authHeaders(lease),
+          params: {
+            ...params,
+            limit: pageLimit,
+            count: posts.length,
+            after: after || undefined,
+          },
+        });
+
+        // Update rate limit info from response headers
+        await this.updateRateLimitFromHeaders(lease, pageResponse.headers);
+        return pageResponse;
+      });
+      pagesFetched++;
+
+      const pagePosts: RedditPost[] = response.data.data.children
+        .filter((child: any) => child.kind === 't3')
+        .map((child: any) => this.normalizePostData(child.data));
+
+      let duplicates = 0;
+      for (const post of pagePosts) {
+        if (stopWhen && stopWhen(post)) {
+          reachedStop = true;
+          break;
+        }
+        if (seenIds.has(post.id)) {
+          duplicates++;
+          continue;
+        }
+        seenIds.add(post.id);
+        posts.push(post);
+      }
+
+      after = response.data.data.after || null;
+
+      // Stop at the end of the listing, or when it starts repeating itself
+      if (pagePosts.length === 0 || !after) break;
+      if (duplicates > 0) {
+        console.log(`⚠️  ${duplicates} duplicate posts on page ${pagesFetched}, stopping pagination`);
+        break;
+      }
+    }
+
+    return {
+      posts: posts.slice(0, limit),
+      pagesFetched,
+      after,
+      reachedStop,
+    };
+  }
+
   /**
    * Fetch posts from a subreddit
    */
@@ -184,49 +169,61 @@ class RedditService {
     limit: number = 100,
     timeFilter: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all' = 'week',
     sort: 'hot' | 'new' | 'top' | 'rising' = 'hot'
-  ): Promise<RedditPost[]> {
+  ): Promise<RedditListing> {
     const cacheKey = `reddit:posts:${subreddit}:${sort}:${timeFilter}:${limit}`;
 
     // Check cache first
     const cached = await getCached(cacheKey);
     if (cached) {
       console.log(`📦 Cache hit for ${subreddit}`);
-      return cached;
+      return { ...cached, pagesFetched: 0, cached: true };
     }
 
-    await this.checkRateLimit();
-    const token = await this.authenticate();
-
-    return this.makeRequestWithRetry(async () => {
-      try {
-        const url = `https://oauth.reddit.com/r/${subreddit}/${sort}`;
-        const response = await this.client.get(url, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-          params: {
-            limit,
-            t: timeFilter,
-          },
-        });
+    try {
+      const listing = await this.fetchListing(
+        `https://oauth.reddit.com/r/${subreddit}/${sort}`,
+        { t: timeFilter },
+        limit
+      );
 
-        // Update rate limit info from response headers
-        this.updateRateLimitFromHeaders(response.headers);
+      // Cache for 10 minutes
+      await setCache(cacheKey, listing, 600);
 
-        const posts: RedditPost[] = response.data.data.children
-          .filter((child: any) => child.kind === 't3')
-          .map((child: any) => this.normalizePostData(child.data));
+      console.log(`✅ Fetched ${listing.posts.length} posts from r/${subreddit} (${listing.pagesFetched} pages)`);
+      return listing;
+    } catch (error: any) {
+      console.error(`Error fetching posts from r/${subreddit}:`, error.response?.data || error.message);
+      throw error;
+    }
+  }
 
-        // Cache for 10 minutes
-        await setCache(cacheKey, posts, 600);
+  /**
+   * Fetch the `new` listing of a subreddit until an already known post is reached
+   */
+  async fetchNewPostsSince(
+    subreddit: string,
+    since: { createdUtc: Date; redditId: string | null } | null,
+    limit: number = 100
+  ): Promise<RedditListing> {
+    try {
+      const sinceTime = since ? since.createdUtc.getTime() : null;
+
+      // Never cached: the point is to see what appeared since the last sync
+      const listing = await this.fetchListing(
+        `https://oauth.reddit.com/r/${subreddit}/new`,
+        {},
+        limit,
+        since
+          ? post => post.id === since.redditId || post.created_utc * 1000 <= sinceTime!
+          : undefined
+      );
 
-        console.log(`✅ Fetched ${posts.length} posts from r/${subreddit}`);
-        return posts;
-      } catch (error: any) {
-        console.error(`Error fetching posts from r/${subreddit}:`, error.response?.data || error.message);
-        throw error;
-      }
-    });
+      console.log(`✅ Fetched ${listing.posts.length} new posts from r/${subreddit} (${listing.pagesFetched} pages)`);
+      return listing;
+    } catch (error: any) {
+      console.error(`Error fetching new posts from r/${subreddit}:`, error.response?.data || error.message);
+      throw error;
+    }
   }
 
   /**
@@ -238,65 +235,163 @@ class RedditService {
     limit: number = 100,
     sort: 'relevance' | 'hot' | 'top' | 'new' | 'comments' = 'relevance',
     timeFilter: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all' = 'all'
-  ): Promise<RedditPost[]> {
-    await this.checkRateLimit();
-    const token = await this.authenticate();
+  ): Promise<RedditListing> {
+    try {
+      const url = subreddit
+        ? `https://oauth.reddit.com/r/${subreddit}/search`
+        : 'https://oauth.reddit.com/search';
+
+      const listing = await this.fetchListing(
+        url,
+        {
+          q: query,
+          sort,
+          t: timeFilter,
+          restrict_sr: subreddit ? true : false,
+          type: 'link',
+        },
+        limit
+      );
+
+      console.log(`✅ Found ${listing.posts.length} posts matching "${query}" (${listing.pagesFetched} pages)`);
+      return listing;
+    } catch (error: any) {
+      console.error(`Error searching posts:`, error.response?.data || error.message);
+      throw error;
+    }
+  }
 
-    return this.makeRequestWithRetry(async () => {
+  /**
+   * Fetch a user profile, `user` is null for deleted or shadowbanned accounts.
+   * `cached` is true when no request was sent to Reddit.
+   */
+  async fetchUser(username: string): Promise<{ user: RedditUser | null; cached: boolean }> {
+    const cacheKey = `reddit:user:${username.toLowerCase()}`;
+
+    // Check cache first
+    const cached = await getCached(cacheKey);
+    if (cached) {
+      return { user: cached.notFound ? null : cached, cached: true };
+    }
+
+    const user = await this.makeRequestWithRetry(async lease => {
       try {
-        const url = subreddit
-          ? `https://oauth.reddit.com/r/${subreddit}/search`
-          : 'https://oauth.reddit.com/search';
+        const url = `https://oauth.reddit.com/user/${encodeURIComponent(username)}/about`;
+        const response = await this.client.get(url, {
+          headers: this.authHeaders(lease),
+        });
+
+        // Update rate limit info from response headers
+        await this.updateRateLimitFromHeaders(lease, response.headers);
+
+        const data = response.data.data;
+        const profile: RedditUser = {
+          name: data.name,
+          link_karma: data.link_karma || 0,
+          comment_karma: data.comment_karma || 0,
+          created_utc: data.created_utc || null,
+          is_suspended: !!data.is_suspended,
+        };
+
+        // Cache for 1 day
+        await setCache(cacheKey, profile, 86400);
+        return profile;
+      } catch (error: any) {
+        if (error.response?.status === 404) {
+          await setCache(cacheKey, { notFound: true }, 86400);
+          return null;
+        }
 
+        console.error(`Error fetching user u/${username}:`, error.response?.data || error.message);
+        throw error;
+      }
+    });
+
+    return { user, cached: false };
+  }
+
+  /**
+   * Fetch subreddit metadata. Private, banned, quarantined and missing subreddits
+   * are returned with their status instead of throwing.
+   */
+  async fetchSubredditAbout(subreddit: string): Promise<RedditSubredditAbout> {
+    return this.makeRequestWithRetry(async lease => {
+      try {
+        const url = `https://oauth.reddit.com/r/${subreddit}/about`;
         const response = await this.client.get(url, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-          params: {
-            q: query,
-            limit,
-            sort,
-            t: timeFilter,
-            restrict_sr: subreddit ? true : false,
-            type: 'link',
-          },
+          headers: this.authHeaders(lease),
+          params: { raw_json: 1 },
+          maxRedirects: 0,
         });
 
         // Update rate limit info from response headers
-        this.updateRateLimitFromHeaders(response.headers);
+        await this.updateRateLimitFromHeaders(lease, response.headers);
 
-        const posts: RedditPost[] = response.data.data.children
-          .filter((child: any) => child.kind === 't3')
-          .map((child: any) => this.normalizePostData(child.data));
+        // Unknown subreddits answer with an empty listing instead of a t5
+        if (response.data.kind !== 't5') {
+          return this.unavailableSubreddit(subreddit, 'not_found');
+        }
 
-        console.log(`✅ Found ${posts.length} posts matching "${query}"`);
-        return posts;
+        const data = response.data.data;
+        return {
+          name: data.display_name,
+          status: data.subreddit_type === 'private'
+            ? 'private'
+            : data.subreddit_type === 'restricted' ? 'restricted' : 'public',
+          description: data.public_description || null,
+          subscribers: data.subscribers || 0,
+          active_users: data.accounts_active ?? data.active_user_count ?? 0,
+          over18: !!data.over18,
+          created_utc: data.created_utc || null,
+        };
       } catch (error: any) {
-        console.error(`Error searching posts:`, error.response?.data || error.message);
+        const status = error.response?.status;
+        const reason = error.response?.data?.reason;
+
+        if (status === 403) {
+          return this.unavailableSubreddit(subreddit, reason === 'quarantined' ? 'quarantined' : 'private');
+        }
+        if (status === 404 || (status >= 300 && status < 400)) {
+          return this.unavailableSubreddit(subreddit, reason === 'banned' ? 'banned' : 'not_found');
+        }
+
+        console.error(`Error fetching r/${subreddit}/about:`, error.response?.data || error.message);
         throw error;
       }
     });
   }
 
+  /**
+   * Build the metadata of a subreddit we are not allowed to read
+   */
+  private unavailableSubreddit(subreddit: string, status: RedditSubredditAbout['status']): RedditSubredditAbout {
+    console.log(`🚫 r/${subreddit} is ${status}`);
+
+    return {
+      name: subreddit,
+      status,
+      description: null,
+      subscribers: 0,
+      active_users: 0,
+      over18: false,
+      created_utc: null,
+    };
+  }
+
   /**
    * Fetch comments for a post
    */
   async fetchComments(subreddit: string, postId: string, limit: number = 100): Promise<RedditComment[]> {
-    await this.checkRateLimit();
-    const token = await this.authenticate();
-
-    return this.makeRequestWithRetry(async () => {
+    return this.makeRequestWithRetry(async lease => {
       try {
         const url = `https://oauth.reddit.com/r/${subreddit}/comments/${postId}`;
         const response = await this.client.get(url, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
+          headers: this.authHeaders(lease),
           params: { limit },
         });
 
         // Update rate limit info from response headers
-        this.updateRateLimitFromHeaders(response.headers);
+        await this.updateRateLimitFromHeaders(lease, response.headers);
 
         const comments: RedditComment[] = [];
         this.extractComments(response.data[1].data.children, comments);
@@ -313,9 +408,11 @@ class RedditService {
   /**
    * Extract comments recursively
    */
-  private extractComments(children: any[], comments: RedditComment[]): void {
+  private extractComments(children: any[], comments: RedditComment[], depth: number = 0): void {
     for (const child of children) {
       if (child.kind === 't1') {
+        const parentId: string = child.data.parent_id || '';
+
         comments.push({
           id: child.data.id,
           body: child.data.body,
@@ -323,10 +420,13 @@ class RedditService {
           score: child.data.score,
           created_utc: child.data.created_utc,
           link_id: child.data.link_id,
+          // Top-level comments have the post (t3_) as parent
+          parent_id: parentId.startsWith('t1_') ? parentId.slice(3) : null,
+          depth: child.data.depth ?? depth,
         });
 
         if (child.data.replies && child.data.replies.data) {
-          this.extractComments(child.data.replies.data.children, comments);
+          this.extractComments(child.data.replies.data.children, comments, depth + 1);
         }
       }
     }
@@ -344,7 +444,7 @@ class RedditService {
       subreddit: rawPost.subreddit,
       score: rawPost.score,
       ups: rawPost.ups,
-      downs: rawPost.downs,
+      downs: this.estimateDownvotes(rawPost),
       num_comments: rawPost.num_comments,
       created_utc: rawPost.created_utc,
       url: rawPost.url,
@@ -353,17 +453,24 @@ class RedditService {
   }
 
   /**
-   * Get rate limit status
+   * Reddit listings always report `downs` as 0, the downvotes are derived from
+   * the upvotes and the upvote ratio instead (ups = ratio * total votes)
    */
-  getRateLimitStatus(): { requestCount: number; limit: number; resetsIn: number } {
-    const now = Date.now();
-    const resetsIn = Math.max(0, 60000 - (now - this.lastResetTime));
+  private estimateDownvotes(rawPost: any): number {
+    const ups = rawPost.ups || 0;
+    const ratio = rawPost.upvote_ratio;
 
-    return {
-      requestCount: this.requestCount,
-      limit: this.RATE_LIMIT,
-      resetsIn: Math.ceil(resetsIn / 1000),
-    };
+    if (rawPost.downs > 0) return rawPost.downs;
+    if (!ratio || ratio <= 0 || ratio >= 1 || ups <= 0) return 0;
+
+    return Math.round(ups * (1 - ratio) / ratio);
+  }
+
+  /**
+   * Get the health and shared rate limit status of every credential
+   */
+  async getCredentialsStatus(): Promise<RedditCredentialStatus[]> {
+    return redditCredentialPool.getStatus();
   }
 }
 
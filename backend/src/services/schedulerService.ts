@@ -0,0 +1,152 @@
+import { parseExpression } from 'cron-parser';
+import etlService from './etlService';
+import redditRateLimiter from './redditRateLimiter';
+import { ScheduleModel } from '../models/scheduleModel';
+import { acquireLock, releaseLock } from '../utils/redis';
+import { SyncSchedule, SyncResult } from '../types';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+class SchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: boolean = false;
+  private readonly POLL_INTERVAL = parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '30000');
+  private readonly LOCK_TTL = parseInt(process.env.SCHEDULER_LOCK_TTL_MS || '3600000');
+
+  /**
+   * Start polling for due schedules
+   */
+  start(): void {
+    if (this.timer) return;
+
+    // Scheduled syncs wait behind API requests for the Reddit budget
+    this.timer = setInterval(() => redditRateLimiter.runWithPriority('background', () => this.tick()), this.POLL_INTERVAL);
+    console.log(`⏰ Scheduler started (polling every ${this.POLL_INTERVAL / 1000}s)`);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Compute the next run date of a schedule
+   */
+  computeNextRun(
+    schedule: Pick<SyncSchedule, 'cron_expression' | 'interval_seconds'>,
+    from: Date = new Date()
+  ): Date {
+    if (schedule.cron_expression) {
+      return parseExpression(schedule.cron_expression, { currentDate: from }).next().toDate();
+    }
+
+    return new Date(from.getTime() + (schedule.interval_seconds || 3600) * 1000);
+  }
+
+  /**
+   * Run every due schedule once
+   */
+  private async tick(): Promise<void> {
+    // A slow run must not overlap with the next poll on this instance
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const dueSchedules = await ScheduleModel.findDue();
+
+      for (const schedule of dueSchedules) {
+        await this.runSchedule(schedule.id!);
+      }
+
+      await this.refreshSubredditMetadata();
+    } catch (error: any) {
+      console.error('❌ Scheduler tick failed:', error.message);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a schedule under a Redis lock so only one instance executes it
+   */
+  private async runSchedule(scheduleId: number): Promise<void> {
+    const lockKey = `lock:schedule:${scheduleId}`;
+    const lockToken = await acquireLock(lockKey, this.LOCK_TTL);
+
+    if (!lockToken) {
+      console.log(`🔒 Schedule ${scheduleId} is already running elsewhere, skipping`);
+      return;
+    }
+
+    try {
+      // Another instance may have completed this run while we were waiting for the lock
+      const schedule = await ScheduleModel.findById(scheduleId);
+      if (!schedule || !schedule.enabled || !schedule.next_run_at || new Date(schedule.next_run_at) > new Date()) {
+        return;
+      }
+
+      console.log(`⏰ Running schedule "${schedule.name}"`);
+
+      let result: SyncResult;
+      try {
+        result = await this.execute(schedule);
+      } catch (error: any) {
+        result = { success: false, postsCount: 0, errors: [error.message] };
+      }
+
+      await ScheduleModel.markRun(
+        scheduleId,
+        result.success ? 'success' : 'failed',
+        result.errors.length > 0 ? result.errors.join('\n') : null,
+        this.computeNextRun(schedule)
+      );
+    } finally {
+      await releaseLock(lockKey, lockToken);
+    }
+  }
+
+  /**
+   * Refresh stale subreddit /about metadata, one instance at a time
+   */
+  private async refreshSubredditMetadata(): Promise<void> {
+    const lockKey = 'lock:subreddit-about';
+    const lockToken = await acquireLock(lockKey, this.LOCK_TTL);
+    if (!lockToken) return;
+
+    try {
+      await etlService.refreshStaleSubreddits();
+    } finally {
+      await releaseLock(lockKey, lockToken);
+    }
+  }
+
+  /**
+   * Dispatch a schedule to the ETL service
+   */
+  private async execute(schedule: SyncSchedule): Promise<SyncResult> {
+    if (schedule.search_query) {
+      return etlService.syncSearchResults(
+        schedule.search_query,
+        schedule.subreddit || undefined,
+        schedule.post_limit,
+        schedule.sort as 'relevance' | 'hot' | 'top' | 'new' | 'comments',
+        schedule.time_filter
+      );
+    }
+
+    return etlService.syncSubreddit(
+      schedule.subreddit!,
+      schedule.post_limit,
+      schedule.time_filter,
+      schedule.sort as 'hot' | 'new' | 'top' | 'rising'
+    );
+  }
+}
+
+export default new SchedulerService();
@@ -0,0 +1,71 @@
+import { PostModel } from '../models/postModel';
+import { acquireLock } from '../utils/redis';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// How often each instance checks whether the statistics are due
+const CHECK_INTERVAL = 60000;
+
+/**
+ * Keeps the term_idf materialized view used for search IDF weighting up to date,
+ * independently of the scheduler.
+ */
+class TermIdfService {
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing: boolean = false;
+  private readonly REFRESH_INTERVAL = parseInt(process.env.TERM_IDF_REFRESH_INTERVAL_MS || '21600000');
+
+  /**
+   * Start refreshing the statistics once per interval across all instances
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.check();
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL);
+    console.log('📚 Term IDF refresh worker started');
+  }
+
+  /**
+   * Stop refreshing the statistics
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Recompute the statistics now, e.g. after a large import
+   */
+  async refresh(): Promise<void> {
+    await PostModel.refreshTermIdf();
+    console.log('📚 Search term IDF refreshed');
+  }
+
+  /**
+   * Refresh when the interval has elapsed, or right away while the view is still empty (fresh install)
+   */
+  private async check(): Promise<void> {
+    if (this.refreshing) return;
+    this.refreshing = true;
+
+    try {
+      if (!(await PostModel.isTermIdfEmpty())) {
+        // The lock is never released: its expiry is what spaces out the refreshes
+        const lockToken = await acquireLock('lock:term-idf-refresh', this.REFRESH_INTERVAL);
+        if (!lockToken) return;
+      }
+
+      await this.refresh();
+    } catch (error: any) {
+      console.error('❌ Failed to refresh term IDF:', error.message);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+}
+
+export default new TermIdfService();
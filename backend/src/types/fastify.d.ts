@@ -0,0 +1,8 @@
+import { AuthContext } from './index';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Set by the auth hook, undefined on public routes or when auth is disabled
+    auth?: AuthContext;
+  }
+}
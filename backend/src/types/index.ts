@@ -15,6 +15,36 @@ export interface RedditPost {
   permalink: string;
 }
 
+export interface RedditUser {
+  name: string;
+  link_karma: number;
+  comment_karma: number;
+  created_utc: number | null;
+  is_suspended: boolean;
+}
+
+export type SubredditStatus = 'public' | 'restricted' | 'private' | 'quarantined' | 'banned' | 'not_found';
+
+export interface RedditSubredditAbout {
+  name: string;
+  status: SubredditStatus;
+  description: string | null;
+  subscribers: number;
+  active_users: number;
+  over18: boolean;
+  created_utc: number | null;
+}
+
+export interface RedditListing {
+  posts: RedditPost[];
+  pagesFetched: number;
+  after: string | null;
+  // Pagination stopped at an already known post
+  reachedStop?: boolean;
+  // Served from the listing cache, counters may be up to its TTL old
+  cached?: boolean;
+}
+
 export interface RedditComment {
   id: string;
   body: string;
@@ -22,6 +52,8 @@ export interface RedditComment {
   score: number;
   created_utc: number;
   link_id: string;
+  parent_id: string | null;
+  depth: number;
 }
 
 export interface Author {
@@ -30,6 +62,8 @@ export interface Author {
   link_karma: number;
   comment_karma: number;
   account_created_utc?: Date;
+  profile_status?: 'active' | 'suspended' | 'not_found' | null;
+  profile_fetched_at?: Date | null;
 }
 
 export interface Subreddit {
@@ -37,6 +71,14 @@ export interface Subreddit {
   name: string;
   description?: string;
   subscribers_count: number;
+  active_users?: number;
+  over18?: boolean;
+  subreddit_created_utc?: Date | null;
+  status?: SubredditStatus | null;
+  about_fetched_at?: Date | null;
+  last_post_created_utc?: Date | null;
+  last_post_reddit_id?: string | null;
+  last_synced_at?: Date | null;
 }
 
 export interface Post {
@@ -56,16 +98,346 @@ export interface Post {
   relevance_score?: number;
 }
 
+export interface PostSnapshot {
+  id?: number;
+  post_id: number;
+  score: number;
+  upvotes: number;
+  downvotes: number;
+  comment_count: number;
+  captured_at: Date;
+}
+
+export interface Comment {
+  id?: number;
+  reddit_id: string;
+  post_id: number;
+  author_id?: number;
+  parent_reddit_id?: string | null;
+  depth: number;
+  content: string;
+  score: number;
+  created_utc: Date;
+}
+
+export interface SyncResult {
+  success: boolean;
+  postsCount: number;
+  postsInserted?: number;
+  postsUpdated?: number;
+  commentsCount?: number;
+  pagesFetched?: number;
+  apiRequests?: number;
+  subredditStatus?: SubredditStatus;
+  errors: string[];
+  runId?: number;
+}
+
+export type SyncRunType = 'subreddit' | 'search' | 'comments';
+
+export interface SyncRun {
+  id: number;
+  type: SyncRunType;
+  subreddit: string | null;
+  query: string | null;
+  params: Record<string, any>;
+  status: 'running' | 'success' | 'failed';
+  started_at: Date;
+  finished_at: Date | null;
+  posts_inserted: number;
+  posts_updated: number;
+  comments_count: number;
+  api_requests: number;
+  errors: string[];
+}
+
+export interface SyncRunFilters {
+  subreddit?: string;
+  type?: SyncRunType;
+  status?: 'running' | 'success' | 'failed';
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SyncSubredditOptions {
+  mode?: 'full' | 'incremental';
+  commentsForTopPosts?: number;
+}
+
+export interface SyncSchedule {
+  id?: number;
+  name: string;
+  subreddit?: string | null;
+  search_query?: string | null;
+  cron_expression?: string | null;
+  interval_seconds?: number | null;
+  sort: string;
+  time_filter: 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+  post_limit: number;
+  enabled: boolean;
+  next_run_at?: Date | null;
+  last_run_at?: Date | null;
+  last_status?: 'success' | 'failed' | null;
+  last_error?: string | null;
+}
+
+export type SearchSort = 'relevance' | 'score' | 'comments' | 'newest' | 'oldest' | 'controversial' | 'hot';
+
+export type SearchFacet = 'subreddit' | 'author' | 'day' | 'week' | 'score';
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export type SearchFacets = Partial<Record<SearchFacet, FacetBucket[]>>;
+
+export type SearchTotalMode = 'exact' | 'estimated';
+
+export interface SearchPage {
+  results: SearchResult[];
+  // Cursor of the next page, null on the last page
+  nextCursor: string | null;
+}
+
+// A newly stored post as pushed to real-time subscribers
+export interface LivePost {
+  id: number;
+  reddit_id: string;
+  title: string;
+  content: string | null;
+  subreddit: string;
+  author: string;
+  score: number;
+  comment_count: number;
+  url: string;
+  created_utc: string;
+}
+
+export interface LivePostFilter {
+  subreddits?: string[];
+  keywords?: string[];
+  minScore?: number;
+}
+
+export type UserRole = 'viewer' | 'operator';
+
+export interface User {
+  id: number;
+  // Subject of the identity provider token (Clerk user ID), null for API-key-only users
+  external_id?: string | null;
+  email?: string | null;
+  name?: string | null;
+  role: UserRole;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface ApiKey {
+  id: number;
+  user_id: number;
+  name: string;
+  // First characters of the key, shown to help users tell their keys apart
+  key_prefix: string;
+  last_used_at?: Date | null;
+  revoked_at?: Date | null;
+  created_at?: Date;
+}
+
+export interface AuthContext {
+  user: User;
+  method: 'api_key' | 'jwt';
+  apiKeyId?: number;
+}
+
+// Interactive requests (API calls a client waits on) go before background ones (scheduler, job worker)
+export type RedditRequestPriority = 'interactive' | 'background';
+
+// client_credentials: app-only access, password: script app acting as its owner,
+// refresh_token: account authorized once through the OAuth code flow
+export type RedditGrantType = 'client_credentials' | 'password' | 'refresh_token';
+
+export interface RedditCredentialConfig {
+  // Unique, identifies the credential in logs, health and Redis rate limit keys
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  grant: RedditGrantType;
+  username?: string;
+  password?: string;
+  refreshToken?: string;
+  userAgent?: string;
+  // Defaults to REDDIT_RATE_LIMIT_PER_MINUTE
+  rateLimitPerMinute?: number;
+}
+
+// A credential picked for one request, with a valid access token
+export interface RedditCredentialLease {
+  credential: string;
+  token: string;
+  userAgent: string;
+}
+
+export interface RedditCredentialStatus {
+  name: string;
+  grant: RedditGrantType;
+  // Disabled credentials are out of rotation until disabledUntil, after repeated 401/403 errors
+  status: 'healthy' | 'disabled';
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  disabledUntil: string | null;
+  rateLimit: RedditRateLimitStatus;
+}
+
+export interface RedditRateLimitStatus {
+  limit: number;
+  // Tokens left in the shared bucket
+  available: number;
+  interactiveReserve: number;
+  interactiveWaiting: number;
+  // From Reddit's X-Ratelimit-* headers, null when unknown or expired
+  redditRemaining: number | null;
+  redditResetsIn: number | null;
+}
+
+// Route groups with their own daily quota
+export type QuotaCategory = 'etl' | 'search';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Limit that rejected the request
+  reason?: 'rate_limit' | 'quota';
+  limit: number;
+  remaining: number;
+  // Epoch seconds at which the per-minute window resets
+  resetAt: number;
+  category?: QuotaCategory;
+  quotaLimit?: number;
+  quotaRemaining?: number;
+  // Seconds to wait before retrying, set when rejected
+  retryAfter?: number;
+}
+
+export interface DailyUsage {
+  // UTC day, YYYY-MM-DD
+  date: string;
+  requests: number;
+  etl: number;
+  search: number;
+  rejected: number;
+}
+
+export interface ClientUsage {
+  apiKeyId: number | null;
+  name: string;
+  keyPrefix: string | null;
+  userId: number;
+  revokedAt: Date | null;
+  days: DailyUsage[];
+}
+
+export interface SavedSearch {
+  id?: number;
+  user_id?: number | null;
+  name: string;
+  // Validated search payload, as accepted by POST /api/posts/search
+  query: Record<string, any>;
+  last_run_at?: Date | null;
+  last_match_count?: number | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface AlertRule {
+  id?: number;
+  user_id?: number | null;
+  name: string;
+  // Boolean query language, see utils/queryParser
+  query: string;
+  subreddits?: string[] | null;
+  min_score: number;
+  cooldown_seconds: number;
+  webhook_url: string;
+  webhook_secret: string;
+  enabled: boolean;
+  last_triggered_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export type AlertEvent = 'alert.triggered' | 'alert.test';
+
+export type AlertDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface AlertDelivery {
+  id?: number;
+  alert_rule_id: number;
+  event: AlertEvent;
+  post_ids: number[];
+  payload: Record<string, any>;
+  status: AlertDeliveryStatus;
+  attempts: number;
+  response_status?: number | null;
+  error?: string | null;
+  next_attempt_at?: Date | null;
+  created_at?: Date;
+  delivered_at?: Date | null;
+}
+
+export type EtlJobType = 'sync-subreddit' | 'sync-search' | 'batch-sync';
+
+export type EtlJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface EtlJobTarget {
+  status: 'pending' | 'running' | 'success' | 'failed' | 'cancelled';
+  postsCount: number;
+  commentsCount?: number;
+  errors: string[];
+}
+
+export interface EtlJob {
+  id: string;
+  type: EtlJobType;
+  params: Record<string, any>;
+  status: EtlJobStatus;
+  // One entry per subreddit (or per query for search syncs)
+  targets: Record<string, EtlJobTarget>;
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
 export interface SearchQuery {
-  keywords: string[];
+  keywords?: string[];
+  // Boolean query language, see utils/queryParser
+  query?: string;
   requiredKeywords?: string[];
+  excludedKeywords?: string[];
   subreddits?: string[];
+  excludedSubreddits?: string[];
+  excludedAuthors?: string[];
+  excludeRemoved?: boolean;
+  excludeAutoModerator?: boolean;
   minUpvotes?: number;
   minKarma?: number;
   dateRange?: {
     start: Date;
     end: Date;
   };
+  // Saved search ID whose previously returned posts are left out
+  unseenBySavedSearch?: number;
+  // Restrict the search to these post IDs
+  postIds?: number[];
+  sort?: SearchSort;
+  // Secondary sort key for rows with the same sort value
+  tiebreaker?: SearchSort;
+  // Keyset pagination cursor, takes precedence over offset
+  cursor?: string;
   limit?: number;
   offset?: number;
 }
@@ -74,4 +446,91 @@ export interface SearchResult extends Post {
   author_username?: string;
   author_karma?: number;
   subreddit_name?: string;
+  // Query-time relevance: IDF-weighted ts_rank_cd of the keywords on title and content
+  title_rank?: number;
+  content_rank?: number;
+  relevance?: number;
+  hot_score?: number;
+  controversy?: number;
+}
+
+export interface TrendingQuery {
+  subreddits?: string[];
+  dateRange?: {
+    start?: Date;
+    end?: Date;
+  };
+  windowHours?: number;
+  limit?: number;
+}
+
+export interface AnalyticsFilters {
+  subreddits?: string[];
+  dateRange?: {
+    start?: Date;
+    end?: Date;
+  };
+}
+
+export interface PostStats {
+  total_posts: number;
+  total_subreddits: number;
+  total_authors: number;
+  avg_score: number | null;
+  max_score: number | null;
+  total_comments: number;
+}
+
+export interface DailyPostCount {
+  day: string;
+  subreddit: string;
+  posts: number;
+}
+
+export interface ScoreDistribution {
+  subreddit: string;
+  posts: number;
+  mean: number;
+  median: number;
+  p25: number;
+  p75: number;
+  p90: number;
+  p99: number;
+}
+
+export interface EngagementStats {
+  subreddit: string;
+  posts: number;
+  total_score: number;
+  total_comments: number;
+  avg_comments: number;
+  // Total comments divided by total score, null when the total score is 0
+  comment_score_ratio: number | null;
+}
+
+export interface AuthorActivity {
+  author: string;
+  posts: number;
+  subreddits: number;
+  total_score: number;
+  avg_score: number;
+  total_comments: number;
+}
+
+export interface PostingHourCell {
+  // 0 = Sunday ... 6 = Saturday, UTC
+  day_of_week: number;
+  hour: number;
+  posts: number;
+  avg_score: number;
+}
+
+export interface TrendingResult extends SearchResult {
+  observations: number;
+  age_hours: number;
+  score_velocity: number;
+  comment_velocity: number;
+  baseline_score_velocity: number;
+  baseline_comment_velocity: number;
+  trending_score: number;
 }
@@ -0,0 +1,91 @@
+// Keyset pagination helpers.
+//
+// A cursor is an opaque base64url token holding the sort it was produced for
+// and the sort key values of the last row of a page. The next page starts
+// strictly after that row, so results stay stable while new posts are stored.
+
+export interface SortColumn {
+  // SQL expression the rows are ordered by
+  expr: string;
+  // Row field holding the value of the expression
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Encode the sort key of a row as a cursor
+ */
+export const encodeCursor = (sort: string, columns: SortColumn[], row: Record<string, any>): string => {
+  const values = columns.map(column => {
+    const value = row[column.field];
+    // Dates go back to the driver as Date objects so they serialize like stored values
+    return value instanceof Date ? { date: value.getTime() } : value;
+  });
+
+  return Buffer.from(JSON.stringify({ sort, values })).toString('base64url');
+};
+
+/**
+ * Decode a cursor, throws InvalidCursorError if it is malformed or was made for another sort
+ */
+export const decodeCursor = (cursor: string, sort: string, columns: SortColumn[]): any[] => {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (!decoded || !Array.isArray(decoded.values) || decoded.values.length !== columns.length) {
+    throw new InvalidCursorError();
+  }
+  if (decoded.sort !== sort) {
+    throw new InvalidCursorError(`Cursor was created for sort "${decoded.sort}", not "${sort}"`);
+  }
+
+  return decoded.values.map((value: any) =>
+    value && typeof value === 'object' && typeof value.date === 'number' ? new Date(value.date) : value
+  );
+};
+
+/**
+ * ORDER BY clause for a sort
+ */
+export const orderBy = (columns: SortColumn[]): string => {
+  return columns.map(column => `${column.expr} ${column.direction}`).join(', ');
+};
+
+/**
+ * Parameterised condition selecting the rows that come after the cursor values:
+ * (c1 > v1) OR (c1 = v1 AND c2 > v2) OR ..., with < for descending columns
+ */
+export const keysetCondition = (
+  columns: SortColumn[],
+  values: any[],
+  startParam: number
+): { sql: string; params: any[]; nextParam: number } => {
+  const params = [...values];
+  const placeholder = (index: number) => `$${startParam + index}`;
+
+  const branches = columns.map((column, index) => {
+    const equalities = columns
+      .slice(0, index)
+      .map((previous, previousIndex) => `${previous.expr} = ${placeholder(previousIndex)}`);
+    const comparison = `${column.expr} ${column.direction === 'DESC' ? '<' : '>'} ${placeholder(index)}`;
+
+    return `(${[...equalities, comparison].join(' AND ')})`;
+  });
+
+  return {
+    sql: `(${branches.join(' OR ')})`,
+    params,
+    nextParam: startParam + values.length,
+  };
+};
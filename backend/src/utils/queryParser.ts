@@ -0,0 +1,323 @@
+// Boolean query language for post search.
+//
+//   startup AND (funding OR investors) NOT title:"looking for cofounder"
+//   author:spez sub:startups saa*
+//
+// Terms are joined with an implicit AND. Supported: quoted phrases, AND/OR/NOT
+// (or a leading "-"), parentheses, field scoping (title:, body:, author:, sub:)
+// and prefix wildcards (word*).
+
+export type QueryField = 'title' | 'body' | 'author' | 'sub';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; field?: QueryField; value: string; phrase: boolean; prefix: boolean };
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type TokenType = 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'field' | 'phrase' | 'word';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const FIELDS: QueryField[] = ['title', 'body', 'author', 'sub'];
+
+/**
+ * Split a query string into tokens
+ */
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    // A leading "-" negates the next term
+    if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: 'not', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError('Unterminated quoted phrase', i);
+      }
+
+      const phrase = input.slice(i + 1, end).trim();
+      if (!phrase) {
+        throw new QuerySyntaxError('Empty quoted phrase', i);
+      }
+
+      tokens.push({ type: 'phrase', value: phrase, position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !/[\s()"]/.test(input[i])) {
+      i++;
+    }
+    const word = input.slice(start, i);
+
+    // Lone punctuation ("&", "|", "-") carries nothing searchable
+    if (!/[\p{L}\p{N}]/u.test(word)) {
+      continue;
+    }
+
+    const fieldMatch = word.match(/^([a-zA-Z]+):(.*)$/);
+    if (fieldMatch) {
+      const field = fieldMatch[1].toLowerCase();
+      if (!FIELDS.includes(field as QueryField)) {
+        throw new QuerySyntaxError(`Unknown field "${fieldMatch[1]}" (expected ${FIELDS.join(', ')})`, start);
+      }
+
+      tokens.push({ type: 'field', value: field, position: start });
+
+      // The field value may follow directly ("title:foo") or be a phrase/group ("title:\"foo bar\"")
+      i = start + fieldMatch[1].length + 1;
+      continue;
+    }
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ type: word.toLowerCase() as TokenType, value: word, position: start });
+    } else {
+      tokens.push({ type: 'word', value: word, position: start });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Recursive descent parser, lowest precedence first: OR, AND, NOT
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new QuerySyntaxError('Empty query', 0);
+    }
+
+    const node = this.parseOr();
+
+    const extra = this.peek();
+    if (extra) {
+      throw new QuerySyntaxError(`Unexpected "${extra.value}"`, extra.position);
+    }
+
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseNot()];
+
+    while (true) {
+      const next = this.peek();
+      if (!next || next.type === 'or' || next.type === 'rparen') break;
+
+      // Explicit AND, otherwise terms next to each other are ANDed
+      if (next.type === 'and') this.index++;
+      children.push(this.parseNot());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseNot(): QueryNode {
+    if (this.peek()?.type === 'not') {
+      this.index++;
+      return { type: 'not', child: this.parseNot() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(field?: QueryField): QueryNode {
+    const token = this.peek();
+
+    if (!token) {
+      throw new QuerySyntaxError('Unexpected end of query', this.length);
+    }
+
+    this.index++;
+
+    switch (token.type) {
+      case 'lparen': {
+        const node = field ? this.scopeGroup(field) : this.parseOr();
+        const closing = this.peek();
+        if (!closing || closing.type !== 'rparen') {
+          throw new QuerySyntaxError('Missing closing parenthesis', closing ? closing.position : this.length);
+        }
+        this.index++;
+        return node;
+      }
+
+      case 'field': {
+        if (field) {
+          throw new QuerySyntaxError('Nested field scopes are not allowed', token.position);
+        }
+        return this.parsePrimary(token.value as QueryField);
+      }
+
+      case 'phrase':
+        return { type: 'term', field, value: token.value, phrase: true, prefix: false };
+
+      case 'word': {
+        const prefix = token.value.endsWith('*');
+        const value = prefix ? token.value.slice(0, -1) : token.value;
+
+        if (!value || value.includes('*')) {
+          throw new QuerySyntaxError('Wildcards are only supported at the end of a word', token.position);
+        }
+        if (prefix && !/^[\p{L}\p{N}_]+$/u.test(value)) {
+          throw new QuerySyntaxError('Prefix wildcards only apply to letters and digits', token.position);
+        }
+
+        return { type: 'term', field, value, phrase: false, prefix };
+      }
+
+      default:
+        throw new QuerySyntaxError(`Unexpected "${token.value}"`, token.position);
+    }
+  }
+
+  /**
+   * Parse a parenthesised group after a field, every term inside inherits the field
+   */
+  private scopeGroup(field: QueryField): QueryNode {
+    const node = this.parseOr();
+
+    const applyField = (child: QueryNode): QueryNode => {
+      switch (child.type) {
+        case 'term':
+          return { ...child, field: child.field || field };
+        case 'not':
+          return { type: 'not', child: applyField(child.child) };
+        default:
+          return { type: child.type, children: child.children.map(applyField) };
+      }
+    };
+
+    return applyField(node);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+}
+
+/**
+ * Parse a search query, throws QuerySyntaxError with the position of the problem
+ */
+export const parseQuery = (input: string): QueryNode => {
+  return new Parser(tokenize(input), input.length).parse();
+};
+
+/**
+ * Compile a parsed query to a parameterised SQL condition.
+ * Expects `p` (posts), `a` (authors) and `s` (subreddits) aliases in the outer query.
+ */
+export const compileQuery = (
+  node: QueryNode,
+  startParam: number
+): { sql: string; params: any[]; nextParam: number } => {
+  const params: any[] = [];
+  let paramCount = startParam;
+
+  const param = (value: any): string => {
+    params.push(value);
+    return `$${paramCount++}`;
+  };
+
+  const textQuery = (term: Extract<QueryNode, { type: 'term' }>): string => {
+    if (term.phrase) return `phraseto_tsquery('english', ${param(term.value)})`;
+    if (term.prefix) return `to_tsquery('english', ${param(`${term.value}:*`)})`;
+    return `plainto_tsquery('english', ${param(term.value)})`;
+  };
+
+  const likePattern = (term: Extract<QueryNode, { type: 'term' }>): string => {
+    const escaped = term.value.replace(/[\\%_]/g, match => `\\${match}`);
+    return term.prefix ? `${escaped}%` : escaped;
+  };
+
+  const compile = (current: QueryNode): string => {
+    switch (current.type) {
+      case 'and':
+        return `(${current.children.map(compile).join(' AND ')})`;
+      case 'or':
+        return `(${current.children.map(compile).join(' OR ')})`;
+      case 'not':
+        return `NOT (${compile(current.child)})`;
+      case 'term':
+        switch (current.field) {
+          case 'author':
+            return `COALESCE(a.username ILIKE ${param(likePattern(current))}, FALSE)`;
+          case 'sub':
+            return `COALESCE(s.name ILIKE ${param(likePattern(current))}, FALSE)`;
+          case 'title':
+            return `to_tsvector('english', p.title) @@ ${textQuery(current)}`;
+          case 'body':
+            return `to_tsvector('english', COALESCE(p.content, '')) @@ ${textQuery(current)}`;
+          default: {
+            const tsquery = textQuery(current);
+            return `(to_tsvector('english', p.title) @@ ${tsquery} OR to_tsvector('english', COALESCE(p.content, '')) @@ ${tsquery})`;
+          }
+        }
+    }
+  };
+
+  const sql = compile(node);
+  return { sql, params, nextParam: paramCount };
+};
+
+/**
+ * Get the positive full-text terms of a query, used for relevance ranking
+ */
+export const extractRankingTerms = (node: QueryNode): string[] => {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(extractRankingTerms);
+    case 'not':
+      return [];
+    case 'term':
+      return node.field === 'author' || node.field === 'sub' ? [] : [node.value];
+  }
+};
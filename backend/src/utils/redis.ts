@@ -43,4 +43,70 @@ export const deleteCache = async (key: string): Promise<void> => {
   }
 };
 
+/**
+ * Acquire a distributed lock, returns the lock token or null if already held
+ */
+export const acquireLock = async (key: string, ttlMs: number): Promise<string | null> => {
+  const token = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+  const result = await redisClient.set(key, token, { NX: true, PX: ttlMs });
+  return result === 'OK' ? token : null;
+};
+
+/**
+ * Release a lock only if we still own it
+ */
+export const releaseLock = async (key: string, token: string): Promise<void> => {
+  try {
+    await redisClient.eval(
+      `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`,
+      { keys: [key], arguments: [token] }
+    );
+  } catch (error) {
+    console.error('Redis release lock error:', error);
+  }
+};
+
+// A subscribed connection cannot run other commands, so pub/sub listeners share a dedicated one
+let subscriber: Promise<ReturnType<typeof redisClient.duplicate>> | null = null;
+
+const getSubscriber = () => {
+  if (!subscriber) {
+    const client = redisClient.duplicate();
+    client.on('error', (err) => console.error('Redis Subscriber Error', err));
+    subscriber = client.connect().then(() => client);
+  }
+  return subscriber;
+};
+
+/**
+ * Publish a JSON message on a channel
+ */
+export const publish = async (channel: string, message: any): Promise<void> => {
+  try {
+    await redisClient.publish(channel, JSON.stringify(message));
+  } catch (error) {
+    console.error('Redis publish error:', error);
+  }
+};
+
+/**
+ * Listen to JSON messages of a channel, returns a function removing the listener
+ */
+export const subscribe = async (
+  channel: string,
+  listener: (message: any) => void
+): Promise<() => Promise<void>> => {
+  const client = await getSubscriber();
+  const handler = (raw: string) => {
+    try {
+      listener(JSON.parse(raw));
+    } catch (error) {
+      console.error(`Redis message error on ${channel}:`, error);
+    }
+  };
+
+  await client.subscribe(channel, handler);
+  return () => client.unsubscribe(channel, handler);
+};
+
 export default redisClient;
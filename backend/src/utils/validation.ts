@@ -0,0 +1,6 @@
+import { z } from 'zod';
+
+// Numeric `:id` route parameter, bounded to a Postgres INTEGER so a bad id is a 400 rather than a query error
+export const idParamsSchema = z.object({
+  id: z.coerce.number().int().positive().max(2147483647),
+});
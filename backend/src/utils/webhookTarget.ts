@@ -0,0 +1,80 @@
+// Guards against webhooks aimed at the server's own network (SSRF).
+//
+// Webhook URLs are checked when a rule is saved, and every connection made to
+// them goes through a DNS lookup that refuses private addresses, so a host
+// resolving to a public address at save time cannot be rebound later.
+
+import { BlockList, isIP } from 'net';
+import { lookup, promises as dnsPromises, LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Local receivers (e.g. http://localhost:4000) are only reachable when explicitly allowed
+const ALLOW_PRIVATE = process.env.ALERT_WEBHOOK_ALLOW_PRIVATE === 'true';
+
+const BLOCKED = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([network, prefix]) => BLOCKED.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]) => BLOCKED.addSubnet(network as string, prefix as number, 'ipv6'));
+
+export class UnsafeWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeWebhookError';
+  }
+}
+
+const isBlocked = (address: string): boolean => {
+  if (ALLOW_PRIVATE) return false;
+  return BLOCKED.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * Throw UnsafeWebhookError unless the URL host resolves to public addresses only
+ */
+export const assertPublicWebhook = async (url: string): Promise<void> => {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(hostname)
+      ? [{ address: hostname, family: isIP(hostname) }]
+      : await dnsPromises.lookup(hostname, { all: true });
+  } catch {
+    throw new UnsafeWebhookError(`Webhook host ${hostname} cannot be resolved`);
+  }
+
+  const blocked = addresses.find(({ address }) => isBlocked(address));
+  if (blocked) {
+    throw new UnsafeWebhookError(`Webhook host ${hostname} resolves to a private address (${blocked.address})`);
+  }
+};
+
+/**
+ * DNS lookup refusing private addresses, used for every connection to a webhook
+ */
+const publicLookup = (hostname: string, options: any, callback: (...args: any[]) => void): void => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error);
+
+    const blocked = addresses.find(({ address }) => isBlocked(address));
+    if (blocked) {
+      return callback(new UnsafeWebhookError(`Webhook host ${hostname} resolves to a private address (${blocked.address})`));
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Agents for axios, IP literals skip the lookup so they are checked by assertPublicWebhook only
+export const webhookHttpAgent = new http.Agent({ lookup: publicLookup });
+export const webhookHttpsAgent = new https.Agent({ lookup: publicLookup });